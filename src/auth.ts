@@ -235,7 +235,9 @@ export class AuthManager {
 				return this.callEndpoint(method, body, true); // Retry once
 			}
 			const errorText = await response.text();
-			throw new Error(`API call failed with status ${response.status}: ${errorText}`);
+			throw Object.assign(new Error(`API call failed with status ${response.status}: ${errorText}`), {
+				status: response.status
+			});
 		}
 
 		return response.json();
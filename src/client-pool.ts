@@ -1,10 +1,22 @@
-import { Env, ClientStatus, OAuth2Credentials } from "./types";
+import { Env, ClientStatus, CoordinatorSelection, OAuth2Credentials } from "./types";
 import { AuthManager } from "./auth";
 import { GeminiApiClient } from "./gemini-client";
+import { CircuitBreaker } from "./helpers/circuit-breaker";
+import { CredentialSelector, SelectionStats } from "./helpers/selection-strategy";
+import { getRotationCoordinator } from "./helpers/rotation-coordinator";
+
+// A pool client with the env var its credentials came from, which identifies it across the pool
+interface PoolEntry {
+	id: string;
+	client: GeminiApiClient;
+	circuitBreaker: CircuitBreaker;
+	selectionStats: SelectionStats;
+}
 
-let clients: GeminiApiClient[] = [];
-let currentIndex = 0;
-const invalidClientTimestamps: Map<number, number> = new Map(); // New: Map of invalid client indexes to their invalidation timestamp
+let clients: PoolEntry[] = [];
+let selector: CredentialSelector | null = null; // Picks clients with the CLIENT_SELECTION_STRATEGY
+let coordinatorSelection: CoordinatorSelection | null = null; // The same strategy, run by the rotation coordinator
+const circuitBreakers: Map<string, CircuitBreaker> = new Map(); // Circuit breakers keyed by client id
 
 /**
  * Initializes the pool of Gemini API clients from the environment variable.
@@ -16,7 +28,7 @@ export async function initializeClientPool(env: Env): Promise<void> {
 	}
 
 	const prefix = "GEMINI_API_KEY_";
-	const credentialsArray: OAuth2Credentials[] = [];
+	const credentialsArray: { id: string; creds: OAuth2Credentials }[] = [];
 
 	for (const key in env) {
 		if (key.startsWith(prefix)) {
@@ -24,7 +36,7 @@ export async function initializeClientPool(env: Env): Promise<void> {
 			const credentialJson = (env as any)[key];
 			if (typeof credentialJson === 'string') {
 				try {
-					credentialsArray.push(JSON.parse(credentialJson));
+					credentialsArray.push({ id: key, creds: JSON.parse(credentialJson) });
 				} catch (e) {
 					console.error(`Failed to parse JSON for env var \`${key}\`. Skipping. Error: ${e}`);
 				}
@@ -36,87 +48,195 @@ export async function initializeClientPool(env: Env): Promise<void> {
 		throw new Error(`No environment variables with prefix \`${prefix}\` found. Please store your Gemini API keys as environment variables.`);
 	}
 
-	clients = credentialsArray.map((creds: OAuth2Credentials, index: number) => {
+	const circuitBreakerConfig = CircuitBreaker.parseConfig(env);
+	const weights = CredentialSelector.parseWeights(env);
+	const clientSelector = CredentialSelector.create(
+		env.CLIENT_SELECTION_STRATEGY,
+		"round_robin",
+		(id) => weights[id] ?? 1
+	);
+	selector = clientSelector;
+	coordinatorSelection = { strategy: env.CLIENT_SELECTION_STRATEGY ?? "round_robin", weights };
+	clients = credentialsArray.map(({ id, creds }, index: number) => {
 		const credentialJson = JSON.stringify(creds);
 		const authManager = new AuthManager(env, credentialJson, index);
 		const projectId = creds.project_id;
-		const onInvalidClientCallback = (clientIndex: number) => {
-			if (!invalidClientTimestamps.has(clientIndex)) {
-				invalidClientTimestamps.set(clientIndex, Date.now());
-				console.log(`Client ${clientIndex} marked as invalid due to excessive errors at ${new Date().toISOString()}.`);
-			}
+		let circuitBreaker = circuitBreakers.get(id);
+		if (!circuitBreaker) {
+			circuitBreaker = new CircuitBreaker(id, circuitBreakerConfig);
+			circuitBreakers.set(id, circuitBreaker);
+		}
+		const selectionStats = clientSelector.getStats(id);
+		return {
+			id,
+			client: new GeminiApiClient(env, authManager, projectId, circuitBreaker, selectionStats),
+			circuitBreaker,
+			selectionStats
 		};
-		return new GeminiApiClient(env, authManager, projectId, onInvalidClientCallback);
 	});
 
-	console.log(`Initialized ${clients.length} Gemini API clients in the pool from environment variables with prefix '${prefix}'.`);
+	console.log(`Initialized ${clients.length} Gemini API clients in the pool from environment variables with prefix '${prefix}' (selection: ${env.CLIENT_SELECTION_STRATEGY ?? "round_robin"}).`);
 }
 
 /**
- * Gets the next available GeminiApiClient from the pool using a round-robin strategy.
+ * Gets the next available GeminiApiClient from the pool using the configured selection strategy.
+ * Clients with an open circuit are skipped; a half-open client is only returned for a probe request.
+ * @param {string} [preferredId] A client to use while its circuit admits requests, e.g. the one that
+ * served the previous turn of the same session.
  * @returns {GeminiApiClient} The next client to use.
  */
-export function getNextClient(): GeminiApiClient {
-	if (clients.length === 0) {
+export function getNextClient(preferredId?: string): GeminiApiClient {
+	if (clients.length === 0 || !selector) {
 		// This might happen if initialization fails but the request proceeds.
 		throw new Error("Client pool is not initialized or is empty. Check your `GEMINI_API_KEYS` configuration.");
 	}
 
-	let client: GeminiApiClient | undefined;
-	let clientIndex: number;
-	let attempts = 0;
-	const maxAttempts = clients.length; // Prevent infinite loop if all clients are invalid
-
-	do {
-		clientIndex = currentIndex;
-		client = clients[clientIndex];
-
-		currentIndex = (currentIndex + 1) % clients.length; // Move to the next client for the next call
-		attempts++;
-
-		// If the current client is invalid, try the next one
-		const invalidatedTimestamp = invalidClientTimestamps.get(clientIndex);
-		if (invalidatedTimestamp) {
-			const oneHour = 60 * 60 * 1000; // 1 hour in milliseconds
-			if (Date.now() - invalidatedTimestamp > oneHour) {
-				// Client has been invalid for more than an hour, re-enable it
-				invalidClientTimestamps.delete(clientIndex);
-				console.log(`Client ${clientIndex} re-enabled after 1 hour of invalidation.`);
-			} else {
-				console.log(`Skipping invalid client at index: ${clientIndex} (invalidated at ${new Date(invalidatedTimestamp).toISOString()})`);
-				client = undefined; // Reset client to continue loop
-			}
+	let entry: PoolEntry | undefined;
+	const preferred = preferredId ? clients.find((candidate) => candidate.id === preferredId) : undefined;
+	if (preferred?.circuitBreaker.tryAcquire()) {
+		entry = preferred;
+	} else if (preferred) {
+		console.log(`Preferred client ${preferred.id} is unavailable (circuit ${preferred.circuitBreaker.getSnapshot().state}), selecting another`);
+	}
+
+	// Each client is tried at most once, which prevents an infinite loop if all circuits are open
+	const candidates = clients.filter((candidate) => candidate !== preferred);
+	while (!entry && candidates.length > 0) {
+		const id = selector.select(candidates.map((candidate) => candidate.id));
+		const candidateIndex = candidates.findIndex((candidate) => candidate.id === id);
+		const candidate = candidates[candidateIndex];
+
+		// If the client's circuit doesn't admit a request, let the strategy pick from the rest
+		if (candidate.circuitBreaker.tryAcquire()) {
+			entry = candidate;
+		} else {
+			const { state, retryAt } = candidate.circuitBreaker.getSnapshot();
+			const retryNote = retryAt && state === "open" ? ` until ${new Date(retryAt).toISOString()}` : "";
+			console.log(`Skipping client ${candidate.id} (circuit ${state}${retryNote})`);
+			candidates.splice(candidateIndex, 1);
 		}
-	} while (!client && attempts < maxAttempts);
+	}
 
-	if (!client) {
+	if (!entry) {
 		throw new Error("No valid clients available in the pool.");
 	}
 
+	const { client } = entry;
 	console.log(
-		`Selected client index: ${clientIndex}, URL: ${client.getEndpoint()}, Calls: ${client.getCallCount()}, Errors: ${client.getErrorCount()}, Is Valid: ${!invalidClientTimestamps.has(clientIndex)}`
+		`Selected client ${entry.id}, URL: ${client.getEndpoint()}, Calls: ${client.getCallCount()}, Errors: ${client.getErrorCount()}, In flight: ${entry.selectionStats.inFlight}, Circuit: ${entry.circuitBreaker.getSnapshot().state}`
 	);
 
 	return client;
 }
 
+/**
+ * Gets a client to send raw API key requests with. Those only borrow the client's request code, not its
+ * credentials, so it is neither picked by the selection strategy nor checked against its circuit.
+ * @returns {GeminiApiClient} The first client of the pool.
+ */
+export function getApiKeyClient(): GeminiApiClient {
+	if (clients.length === 0) {
+		throw new Error("Client pool is not initialized or is empty. Check your `GEMINI_API_KEYS` configuration.");
+	}
+	return clients[0].client;
+}
+
+/**
+ * Gets the next client like getNextClient, but through the rotation coordinator when ROTATION_COORDINATOR
+ * is bound, so cooldowns, in-flight counts and cursors are shared with every other isolate. Falls back to
+ * getNextClient when no coordinator is bound or it can't be reached. Pair every call with releaseClient.
+ */
+export async function acquireClient(env: Env, preferredId?: string): Promise<GeminiApiClient> {
+	const coordinator = getRotationCoordinator(env);
+	if (!coordinator || !coordinatorSelection) {
+		return getNextClient(preferredId);
+	}
+
+	const candidates = [...clients];
+	try {
+		while (candidates.length > 0) {
+			const id = await coordinator.acquire({
+				pool: "clients",
+				ids: candidates.map((candidate) => candidate.id),
+				preferredId,
+				...coordinatorSelection
+			});
+			const candidateIndex = candidates.findIndex((candidate) => candidate.id === id);
+			if (candidateIndex === -1) {
+				break; // Every remaining client is cooling down in another isolate
+			}
+
+			// The local circuit still has the last word, e.g. for half-open probe slots
+			const candidate = candidates[candidateIndex];
+			if (candidate.circuitBreaker.tryAcquire()) {
+				console.log(`Selected client ${candidate.id} through the rotation coordinator`);
+				return candidate.client;
+			}
+			await coordinator.release("clients", candidate.id);
+			candidates.splice(candidateIndex, 1);
+		}
+	} catch (e) {
+		console.error("Rotation coordinator is unavailable, selecting a client locally:", e);
+		return getNextClient(preferredId);
+	}
+	throw new Error("No valid clients available in the pool.");
+}
+
+/**
+ * Ends a request started with acquireClient, sharing the client's circuit with the other isolates if it
+ * opened during the request. Only successful requests pass a latency.
+ */
+export async function releaseClient(env: Env, client: GeminiApiClient, latencyMs?: number): Promise<void> {
+	const coordinator = getRotationCoordinator(env);
+	const entry = clients.find((candidate) => candidate.client === client);
+	if (!coordinator || !entry) {
+		return;
+	}
+
+	try {
+		const { state, retryAt } = entry.circuitBreaker.getSnapshot();
+		if (state === "open" && retryAt) {
+			await coordinator.setCooldown("clients", entry.id, retryAt);
+		}
+		await coordinator.release("clients", entry.id, latencyMs);
+	} catch (e) {
+		console.error(`Failed to release client ${entry.id} in the rotation coordinator:`, e);
+	}
+}
+
+/**
+ * Returns the id of a pool client (the env var its credentials came from), or undefined if it isn't in the pool.
+ */
+export function getClientId(client: GeminiApiClient): string | undefined {
+	return clients.find((entry) => entry.client === client)?.id;
+}
+
+/**
+ * Returns the number of clients in the pool, including those with an open circuit.
+ */
+export function getClientCount(): number {
+	return clients.length;
+}
+
 /**
  * Returns the status of all clients in the pool for the admin dashboard.
  * @returns {ClientStatus[]} An array of client status objects.
  */
 export function getClientStatuses(): ClientStatus[] {
-	return clients.map((client, index) => {
-		const isValid = !invalidClientTimestamps.has(index);
-		const invalidatedAt = invalidClientTimestamps.get(index);
+	return clients.map(({ id, client, circuitBreaker, selectionStats }, index) => {
+		const circuit = circuitBreaker.getSnapshot();
 		const accessToken = client.getAuthManager().getAccessToken();
 		const last8CharsOfToken = accessToken ? accessToken.slice(-8) : "N/A";
 
 		return {
 			index: index,
+			id: id,
 			last8CharsOfToken: last8CharsOfToken,
 			errorCount: client.getErrorCount(),
-			isValid: isValid,
-			invalidatedAt: invalidatedAt
+			isValid: circuit.state !== "open",
+			invalidatedAt: circuit.state === "open" ? circuit.openedAt : undefined,
+			circuit: circuit,
+			selection: selectionStats.getSnapshot()
 		};
 	});
 }
\ No newline at end of file
@@ -13,4 +13,31 @@ export const getKvTokenKey = (index: number) => `oauth_token_cache_${index}`;
 
 // --- OpenAI API Constants ---
 export const OPENAI_CHAT_COMPLETION_OBJECT = "chat.completion.chunk";
+export const OPENAI_TEXT_COMPLETION_OBJECT = "text_completion";
 export const OPENAI_MODEL_OWNER = "google-gemini-cli";
+
+// --- Context Window ---
+// Request header opting in to dropping old turns when a conversation exceeds the context window
+export const CONTEXT_TRUNCATION_HEADER = "X-Context-Truncation";
+
+// --- Model Fallback ---
+// Request header selecting the tenant whose FALLBACK_CHAINS overrides apply
+export const FALLBACK_TENANT_HEADER = "X-Tenant-Id";
+// Response headers reporting the model that actually served the request and why it differs
+export const SERVED_MODEL_HEADER = "X-Served-Model";
+export const FALLBACK_REASON_HEADER = "X-Fallback-Reason";
+
+// --- Session Affinity ---
+// Request header naming the conversation, preferred over the user field and the conversation prefix
+export const SESSION_ID_HEADER = "X-Session-Id";
+// Prefix of the KV keys mapping a hashed session key to a SessionAffinityRecord
+export const SESSION_AFFINITY_KV_PREFIX = "affinity:";
+
+// --- Rotation Coordinator ---
+// Name of the single Durable Object instance all isolates share, and the origin of its internal endpoints
+export const ROTATION_COORDINATOR_NAME = "rotation";
+export const ROTATION_COORDINATOR_ORIGIN = "https://rotation-coordinator";
+
+// --- Model Registry ---
+// KV key holding a JSON ModelRegistryConfig, so models and aliases can change without a redeploy
+export const MODEL_REGISTRY_KV_KEY = "model_registry";
@@ -27,9 +27,9 @@ export const DISABLED_THINKING_BUDGET = 0; // 0 disables thinking entirely
 export const DEFAULT_TEMPERATURE = 0.7;
 
 // Auto model switching configuration
-export const AUTO_SWITCH_MODEL_MAP = {
-	"gemini-2.5-pro": "gemini-2.5-flash"
-} as const;
+export const DEFAULT_FALLBACK_CHAINS: Record<string, string[]> = {
+	"gemini-2.5-pro": ["gemini-2.5-flash"]
+};
 
 // HTTP status codes for rate limiting
 export const RATE_LIMIT_STATUS_CODES = [429, 503] as const;
@@ -48,6 +48,70 @@ export const REASONING_EFFORT_BUDGETS = {
 	}
 } as const;
 
+// Structured outputs: re-asks allowed when a strict json_schema response fails validation
+export const DEFAULT_STRUCTURED_OUTPUT_MAX_REPAIRS = 1;
+
+// Gemini finishReason values meaning the output was withheld or cut off by a content filter
+export const GEMINI_CONTENT_FILTER_FINISH_REASONS = [
+	"SAFETY",
+	"RECITATION",
+	"BLOCKLIST",
+	"PROHIBITED_CONTENT",
+	"SPII",
+	"IMAGE_SAFETY"
+] as const;
+
+// Remote images: fetched by the worker and sent inline, since Code Assist doesn't fetch fileData URIs
+export const REMOTE_IMAGE_MAX_BYTES = 10 * 1024 * 1024;
+export const REMOTE_IMAGE_FETCH_TIMEOUT_MS = 10000;
+export const REMOTE_IMAGE_MAX_REDIRECTS = 5; // Each hop is checked like the original URL
+export const REMOTE_IMAGE_CACHE_TTL_SECONDS = 24 * 60 * 60;
+export const REMOTE_IMAGE_CACHE_KEY_PREFIX = "image:";
+
+// MIME types of the input_audio formats Gemini accepts inline
+export const AUDIO_FORMAT_MIME_TYPES: Record<string, string> = {
+	wav: "audio/wav",
+	mp3: "audio/mp3",
+	aiff: "audio/aiff",
+	aac: "audio/aac",
+	ogg: "audio/ogg",
+	flac: "audio/flac"
+};
+
+export const PDF_MIME_TYPE = "application/pdf";
+
+// Context window preflight: rough token estimates used before a request is sent upstream
+export const CHARS_PER_TOKEN = 4;
+export const MESSAGE_OVERHEAD_TOKENS = 4;
+export const AUDIO_BYTES_PER_TOKEN = 500; // ~32 tokens per second of 128 kbps audio
+export const PDF_BYTES_PER_TOKEN = 200; // ~258 tokens per page of a ~50 KB page
+
+// How long a loaded model registry is reused before MODEL_REGISTRY and KV are read again
+export const MODEL_REGISTRY_REFRESH_MS = 60 * 1000;
+
+// Circuit breaker defaults per failure type: consecutive failures that open a client's circuit,
+// and how long it stays open before a probe request is let through
+export const CIRCUIT_BREAKER_FAILURE_THRESHOLDS = { auth: 2, rate_limit: 3, server: 3 };
+export const CIRCUIT_BREAKER_OPEN_SECONDS = { auth: 60 * 60, rate_limit: 60, server: 5 * 60 };
+export const CIRCUIT_BREAKER_HALF_OPEN_PROBES = 1;
+export const CIRCUIT_BREAKER_PROBE_TIMEOUT_MS = 60 * 1000; // A probe that never reports back frees its slot
+
+// Weight of the newest sample in the latency EWMA used by the latency_ewma selection strategy
+export const LATENCY_EWMA_ALPHA = 0.3;
+
+// Session affinity: how long an idle conversation keeps its credentials (KV's minimum TTL is 60 seconds),
+// and how old a record may get before a request refreshes its TTL
+export const SESSION_AFFINITY_TTL_SECONDS = 60 * 60;
+export const SESSION_AFFINITY_MIN_TTL_SECONDS = 60;
+export const SESSION_AFFINITY_REFRESH_MS = 5 * 60 * 1000;
+
+// Rotation coordinator: an acquire that is never released, e.g. because its isolate was evicted mid-request,
+// stops counting as in flight after this long
+export const ROTATION_LEASE_TTL_MS = 10 * 60 * 1000;
+
+// How long a cached KeyManager uses its key cooldowns before the state persisted in KV is read again
+export const KEY_STATE_REFRESH_MS = 60 * 1000;
+
 // Gemini safety categories
 export const GEMINI_SAFETY_CATEGORIES = {
 	HARASSMENT: "HARM_CATEGORY_HARASSMENT",
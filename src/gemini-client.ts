@@ -3,25 +3,34 @@ import {
 	StreamChunk,
 	ReasoningData,
 	UsageData,
+	ModelSwitchData,
 	ChatMessage,
 	MessageContent,
-	Tool,
-	ToolChoice,
-	GeminiFunctionCall
+	GeminiFunctionCall,
+	GeminiRequestOptions,
+	CompletionCandidate,
+	CompletionResult
 } from "./types";
 import { AuthManager } from "./auth";
 import { CODE_ASSIST_ENDPOINT, CODE_ASSIST_API_VERSION } from "./config";
 import { REASONING_MESSAGES, REASONING_CHUNK_DELAY, THINKING_CONTENT_CHUNK_SIZE } from "./constants";
-import { geminiCliModels } from "./models";
+import { getModelInfo } from "./models";
 import { validateImageUrl } from "./utils/image-utils";
+import { normalizeGeminiContents, parseToolArguments } from "./utils/conversation-utils";
+import { getAudioMimeType, parseFileData } from "./utils/content-utils";
 import { GenerationConfigValidator } from "./helpers/generation-config-validator";
 import { AutoModelSwitchingHelper } from "./helpers/auto-model-switching";
+import { CircuitBreaker } from "./helpers/circuit-breaker";
+import { SelectionStats } from "./helpers/selection-strategy";
+import { RemoteImageHelper } from "./helpers/remote-image";
 
 // Gemini API response types
 interface GeminiCandidate {
+	index?: number;
 	content?: {
 		parts?: Array<{ text?: string }>;
 	};
+	finishReason?: string;
 }
 
 interface GeminiUsageMetadata {
@@ -33,6 +42,9 @@ interface GeminiResponse {
 	response?: {
 		candidates?: GeminiCandidate[];
 		usageMetadata?: GeminiUsageMetadata;
+		promptFeedback?: {
+			blockReason?: string;
+		};
 	};
 }
 
@@ -90,16 +102,24 @@ export class GeminiApiClient {
 	private autoSwitchHelper: AutoModelSwitchingHelper;
 	private callCount: number = 0;
 	private errorCount: number = 0;
-	private onInvalidClientCallback: ((index: number) => void) | undefined; // New: Callback for invalid client notification
-
-	constructor(env: Env, authManager: AuthManager, initialProjectId?: string, onInvalidClientCallback?: (index: number) => void) {
+	private circuitBreaker: CircuitBreaker | undefined; // Set for pool clients, which are skipped while it is open
+	private selectionStats: SelectionStats | undefined; // Set for pool clients; read by the pool's selection strategy
+
+	constructor(
+		env: Env,
+		authManager: AuthManager,
+		initialProjectId?: string,
+		circuitBreaker?: CircuitBreaker,
+		selectionStats?: SelectionStats
+	) {
 		this.env = env;
 		this.authManager = authManager;
 		this.autoSwitchHelper = new AutoModelSwitchingHelper(env);
 		if (initialProjectId) {
 			this.projectId = initialProjectId;
 		}
-		this.onInvalidClientCallback = onInvalidClientCallback;
+		this.circuitBreaker = circuitBreaker;
+		this.selectionStats = selectionStats;
 	}
 
 	public getEndpoint(): string {
@@ -118,6 +138,49 @@ export class GeminiApiClient {
 		return this.authManager;
 	}
 
+	/**
+	 * Increments the error count and reports the failure to the circuit breaker.
+	 * @param status The upstream HTTP status; undefined for network errors and missing bodies
+	 */
+	private recordError(status?: number): void {
+		this.errorCount++;
+		this.circuitBreaker?.recordFailure(status);
+	}
+
+	/**
+	 * Tracks an OAuth request in the selection stats: in flight until the upstream responds, with its
+	 * latency recorded when it succeeded. A rejected request (e.g. a network or DNS error, or an error
+	 * status thrown by the auth manager) is recorded as an error here, since callers never see a response.
+	 */
+	private async trackRequest<T>(
+		request: () => Promise<T>,
+		succeeded: (result: T) => boolean = () => true
+	): Promise<T> {
+		const startedAt = Date.now();
+		let latencyMs: number | undefined;
+		this.selectionStats?.start();
+		try {
+			const result = await request();
+			if (succeeded(result)) {
+				latencyMs = Date.now() - startedAt;
+			}
+			return result;
+		} catch (error: unknown) {
+			this.recordError((error as { status?: number }).status);
+			throw error;
+		} finally {
+			this.selectionStats?.end(latencyMs);
+		}
+	}
+
+	/**
+	 * Increments the call count and reports the success to the circuit breaker.
+	 */
+	private recordSuccess(): void {
+		this.callCount++;
+		this.circuitBreaker?.recordSuccess();
+	}
+
 	/**
 	 * Discovers the Google Cloud project ID. Uses the environment variable if provided.
 	 */
@@ -197,20 +260,76 @@ export class GeminiApiClient {
 		}
 	}
 
+	/**
+	 * Throws a 400 error when Gemini refused the prompt itself (promptFeedback.blockReason).
+	 * Such responses carry no candidates, so there is nothing to stream.
+	 */
+	private throwIfPromptBlocked(jsonData: GeminiResponse): void {
+		const blockReason = jsonData.response?.promptFeedback?.blockReason;
+		if (blockReason) {
+			console.error(`[GeminiAPI] Prompt blocked: ${blockReason}`);
+			throw Object.assign(new Error(`Prompt was blocked by Gemini: ${blockReason}`), { status: 400, blockReason });
+		}
+	}
+
+	/**
+	 * Builds the request contents and sends the system prompt as a real systemInstruction.
+	 * Remote image URLs still in the messages are fetched and inlined first; RequestDispatcher has
+	 * normally inlined them once for the whole request already.
+	 * A request made only of system text falls back to sending it as the user turn, since Gemini
+	 * requires at least one content.
+	 */
+	private async buildContents(
+		systemPrompt: string,
+		messages: ChatMessage[]
+	): Promise<{ contents: GeminiFormattedMessage[]; systemInstruction?: GeminiFormattedMessage }> {
+		const inlined = await new RemoteImageHelper(this.env).inlineRemoteImages(messages);
+		const contents = this.messagesToGeminiContents(inlined);
+		if (!systemPrompt) {
+			return { contents };
+		}
+		if (contents.length === 0) {
+			return { contents: [{ role: "user", parts: [{ text: systemPrompt }] }] };
+		}
+		return { contents, systemInstruction: { role: "user", parts: [{ text: systemPrompt }] } };
+	}
+
+	/**
+	 * Converts the conversation to Gemini contents.
+	 * Tool results are named after the function of the assistant tool call they answer. The result is
+	 * normalized afterwards, which also merges consecutive tool results into one user turn since Gemini
+	 * expects all responses to parallel calls together.
+	 */
+	private messagesToGeminiContents(messages: ChatMessage[]): GeminiFormattedMessage[] {
+		const functionNames = new Map<string, string>();
+		const contents: GeminiFormattedMessage[] = [];
+
+		for (const msg of messages) {
+			for (const toolCall of msg.tool_calls ?? []) {
+				functionNames.set(toolCall.id, toolCall.function.name);
+			}
+			contents.push(this.messageToGeminiFormat(msg, functionNames));
+		}
+
+		return normalizeGeminiContents(contents);
+	}
+
 	/**
 	 * Converts a message to Gemini format, handling both text and image content.
 	 */
-	private messageToGeminiFormat(msg: ChatMessage): GeminiFormattedMessage {
+	private messageToGeminiFormat(msg: ChatMessage, functionNames?: Map<string, string>): GeminiFormattedMessage {
 		const role = msg.role === "assistant" ? "model" : "user";
 
 		// Handle tool call results (tool role in OpenAI format)
 		if (msg.role === "tool") {
+			// Gemini matches responses to calls by function name, not by the OpenAI call id
+			const functionName = msg.tool_call_id ? functionNames?.get(msg.tool_call_id) : undefined;
 			return {
 				role: "user",
 				parts: [
 					{
 						functionResponse: {
-							name: msg.tool_call_id || "unknown_function",
+							name: functionName || msg.tool_call_id || "unknown_function",
 							response: {
 								result: typeof msg.content === "string" ? msg.content : JSON.stringify(msg.content)
 							}
@@ -235,7 +354,7 @@ export class GeminiApiClient {
 					parts.push({
 						functionCall: {
 							name: toolCall.function.name,
-							args: JSON.parse(toolCall.function.arguments)
+							args: parseToolArguments(toolCall.function.name, toolCall.function.arguments)
 						}
 					});
 				}
@@ -253,7 +372,7 @@ export class GeminiApiClient {
 		}
 
 		if (Array.isArray(msg.content)) {
-			// Multimodal message with text and/or images
+			// Multimodal message with text, images, audio and/or files
 			const parts: GeminiPart[] = [];
 
 			for (const content of msg.content) {
@@ -280,9 +399,7 @@ export class GeminiApiClient {
 							}
 						});
 					} else {
-						// Handle URL images
-						// Note: For better reliability, you might want to fetch the image
-						// and convert it to base64, as Gemini API might have limitations with external URLs
+						// Remote URLs are normally inlined by RemoteImageHelper before conversion
 						parts.push({
 							fileData: {
 								mimeType: validation.mimeType || "image/jpeg",
@@ -290,16 +407,30 @@ export class GeminiApiClient {
 							}
 						});
 					}
+				} else if (content.type === "input_audio" && content.input_audio) {
+					const mimeType = getAudioMimeType(content.input_audio.format ?? "");
+					if (!mimeType) {
+						throw Object.assign(new Error(`Unsupported audio format: ${content.input_audio.format}`), {
+							status: 400
+						});
+					}
+					parts.push({ inlineData: { mimeType, data: content.input_audio.data } });
+				} else if (content.type === "file") {
+					const fileData = parseFileData(content.file);
+					if (!fileData) {
+						throw Object.assign(new Error("Invalid file: file_data must be a base64 data URL"), { status: 400 });
+					}
+					parts.push({ inlineData: fileData });
 				}
 			}
 
 			return { role, parts };
 		}
 
-		// Fallback for unexpected content format
+		// Fallback for unexpected content format; null content (e.g. an assistant turn without text) yields no parts
 		return {
 			role,
-			parts: [{ text: String(msg.content) }]
+			parts: msg.content == null ? [] : [{ text: String(msg.content) }]
 		};
 	}
 
@@ -307,7 +438,7 @@ export class GeminiApiClient {
 	 * Validates if the model supports images.
 	 */
 	private validateImageSupport(modelId: string): boolean {
-		return geminiCliModels[modelId]?.supportsImages || false;
+		return getModelInfo(modelId)?.supportsImages || false;
 	}
 
 	/**
@@ -325,34 +456,15 @@ export class GeminiApiClient {
 		modelId: string,
 		systemPrompt: string,
 		messages: ChatMessage[],
-		options?: {
-			includeReasoning?: boolean;
-			thinkingBudget?: number;
-			tools?: Tool[];
-			tool_choice?: ToolChoice;
-			max_tokens?: number;
-			temperature?: number;
-			top_p?: number;
-			stop?: string | string[];
-			presence_penalty?: number;
-			frequency_penalty?: number;
-			seed?: number;
-			response_format?: {
-				type: "text" | "json_object";
-			};
-		}
+		options?: GeminiRequestOptions
 	): AsyncGenerator<StreamChunk> {
 		await this.authManager.initializeAuth();
 		const projectId = await this.discoverProjectId();
 
-		const contents = messages.map((msg) => this.messageToGeminiFormat(msg));
-
-		if (systemPrompt) {
-			contents.unshift({ role: "user", parts: [{ text: systemPrompt }] });
-		}
+		const { contents, systemInstruction } = await this.buildContents(systemPrompt, messages);
 
 		// Check if this is a thinking model and which thinking mode to use
-		const isThinkingModel = geminiCliModels[modelId]?.thinking || false;
+		const isThinkingModel = getModelInfo(modelId)?.thinking || false;
 		const isRealThinkingEnabled = this.env.ENABLE_REAL_THINKING === "true";
 		const isFakeThinkingEnabled = this.env.ENABLE_FAKE_THINKING === "true";
 		const streamThinkingAsContent = this.env.STREAM_THINKING_AS_CONTENT === "true";
@@ -369,6 +481,7 @@ export class GeminiApiClient {
 			presence_penalty: options?.presence_penalty,
 			frequency_penalty: options?.frequency_penalty,
 			seed: options?.seed,
+			n: options?.n,
 			response_format: options?.response_format
 		};
 
@@ -395,6 +508,7 @@ export class GeminiApiClient {
 			project: projectId,
 			request: {
 				contents: contents,
+				systemInstruction,
 				generationConfig,
 				tools: tools,
 				toolConfig
@@ -406,7 +520,8 @@ export class GeminiApiClient {
 			needsThinkingClose,
 			false,
 			includeReasoning && streamThinkingAsContent,
-			modelId
+			modelId,
+			this.autoSwitchHelper.getModelChain(modelId, options).slice(1)
 		);
 	}
 
@@ -508,75 +623,68 @@ export class GeminiApiClient {
 
 	/**
 	 * Performs the actual stream request with retry logic for 401 errors and auto model switching for rate limits.
+	 * Rate-limited requests move on to the next model of fallbackModels until the chain is exhausted.
 	 */
 	private async *performStreamRequest(
 		streamRequest: unknown,
 		needsThinkingClose: boolean = false,
 		isRetry: boolean = false,
 		realThinkingAsContent: boolean = false,
-		originalModel?: string
+		originalModel?: string,
+		fallbackModels: string[] = []
 	): AsyncGenerator<StreamChunk> {
-		const response = await fetch(`${CODE_ASSIST_ENDPOINT}/${CODE_ASSIST_API_VERSION}:streamGenerateContent?alt=sse`, {
-			method: "POST",
-			headers: {
-				"Content-Type": "application/json",
-				Authorization: `Bearer ${this.authManager.getAccessToken()}`
-			},
-			body: JSON.stringify(streamRequest)
-		});
+		const response = await this.trackRequest(
+			() =>
+				fetch(`${CODE_ASSIST_ENDPOINT}/${CODE_ASSIST_API_VERSION}:streamGenerateContent?alt=sse`, {
+					method: "POST",
+					headers: {
+						"Content-Type": "application/json",
+						Authorization: `Bearer ${this.authManager.getAccessToken()}`
+					},
+					body: JSON.stringify(streamRequest)
+				}),
+			(res) => res.ok
+		);
 
 		if (!response.ok) {
-			this.errorCount++; // Increment error count on failure
-			const maxErrorCount = parseInt(this.env.MAX_ERROR_COUNT || "3"); // Default to 3
-			if (this.errorCount >= maxErrorCount && this.onInvalidClientCallback) {
-				// Notify the client pool that this client is invalid
-				// We need the client's index, but GeminiApiClient doesn't know its own index.
-				// The client pool will need to map this callback to the correct index.
-				// For now, we'll assume the callback handles the index mapping.
-				this.onInvalidClientCallback(-1); // -1 indicates that the client itself doesn't know its index
-			}
-
 			if (response.status === 401 && !isRetry) {
 				console.log("Got 401 error in stream request, clearing token cache and retrying...");
 				await this.authManager.clearTokenCache();
 				await this.authManager.initializeAuth();
-				yield* this.performStreamRequest(streamRequest, needsThinkingClose, true, realThinkingAsContent, originalModel); // Retry once
+				yield* this.performStreamRequest(streamRequest, needsThinkingClose, true, realThinkingAsContent, originalModel, fallbackModels); // Retry once
 				return;
 			}
+			// Recorded after the refresh retry, so an expired access token doesn't count against the client
+			this.recordError(response.status);
+
+			// Handle rate limiting by switching to the next model of the fallback chain
+			if (this.autoSwitchHelper.isRateLimitStatus(response.status) && fallbackModels.length > 0) {
+				const currentModel = (streamRequest as { model: string }).model;
+				const [fallbackModel, ...remainingModels] = fallbackModels;
+				console.log(`Got ${response.status} error for model ${currentModel}, switching to fallback model: ${fallbackModel}`);
+
+				// Create new request with fallback model
+				const fallbackRequest = {
+					...(streamRequest as Record<string, unknown>),
+					model: fallbackModel
+				};
 
-			// Handle rate limiting with auto model switching
-			// Coerce originalModel to a string for logging to satisfy TypeScript when it may be undefined
-			const fallbackForLog = this.autoSwitchHelper.getFallbackModel(originalModel ?? "");
-			console.log(`[DEBUG] performStreamRequest - status: ${response.status}, isRetry: ${isRetry}, originalModel: ${originalModel}, isEnabled: ${this.autoSwitchHelper.isEnabled()}, fallbackModel: ${fallbackForLog}`);
-			console.log(`[DEBUG] performStreamRequest - status: ${response.status}, isRetry: ${isRetry}, originalModel: ${originalModel}, isEnabled: ${this.autoSwitchHelper.isEnabled()}, fallbackModel: ${fallbackForLog}`);
-			if (this.autoSwitchHelper.isRateLimitStatus(response.status) && !isRetry && originalModel) {
-				const fallbackModel = this.autoSwitchHelper.getFallbackModel(originalModel);
-				if (fallbackModel && this.autoSwitchHelper.isEnabled()) {
-					console.log(
-						`Got ${response.status} error for model ${originalModel}, switching to fallback model: ${fallbackModel}`
-					);
-
-					// Create new request with fallback model
-					const fallbackRequest = {
-						...(streamRequest as Record<string, unknown>),
-						model: fallbackModel
-					};
-
-					// Add a notification chunk about the model switch
-					yield {
-						type: "text",
-						data: this.autoSwitchHelper.createSwitchNotification(originalModel, fallbackModel)
-					};
-
-					yield* this.performStreamRequest(
-						fallbackRequest,
-						needsThinkingClose,
-						true,
-						realThinkingAsContent,
-						originalModel
-					);
-					return;
-				}
+				// Report the switch so routes can expose the served model
+				yield* this.autoSwitchHelper.createSwitchChunks(
+					originalModel ?? currentModel,
+					fallbackModel,
+					this.autoSwitchHelper.getFallbackReason(response.status)
+				);
+
+				yield* this.performStreamRequest(
+					fallbackRequest,
+					needsThinkingClose,
+					true,
+					realThinkingAsContent,
+					originalModel,
+					remainingModels
+				);
+				return;
 			}
 
 			const errorText = await response.text();
@@ -585,47 +693,52 @@ export class GeminiApiClient {
 		}
 
 		if (!response.body) {
-			this.errorCount++; // Increment error count if no body
-			const maxErrorCount = parseInt(this.env.MAX_ERROR_COUNT || "3"); // Default to 3
-			if (this.errorCount >= maxErrorCount && this.onInvalidClientCallback) {
-				this.onInvalidClientCallback(-1); // -1 indicates that the client itself doesn't know its index
-			}
+			this.recordError(); // Count a missing body as a failure too
 			throw new Error("Response has no body");
 		}
 
-		this.callCount++; // Increment call count on successful response (before parsing body)
+		this.recordSuccess(); // Count a successful response (before parsing body)
 
-		let hasClosedThinking = false;
-		let hasStartedThinking = false;
+		// Thinking tags are opened and closed per candidate
+		const startedThinking = new Set<number>();
+		const closedThinking = new Set<number>();
 
 		for await (const jsonData of this.parseSSEStream(response.body)) {
-			const candidate = jsonData.response?.candidates?.[0];
+			this.throwIfPromptBlocked(jsonData);
+			const candidates = jsonData.response?.candidates ?? [];
+
+			for (const [position, candidate] of candidates.entries()) {
+				const index = candidate.index ?? position;
+				// Fake thinking is only streamed ahead of the first candidate
+				const closesFakeThinking = needsThinkingClose && index === 0;
 
-			if (candidate?.content?.parts) {
-				for (const part of candidate.content.parts as GeminiPart[]) {
+				for (const part of (candidate.content?.parts ?? []) as GeminiPart[]) {
 					// Handle real thinking content from Gemini
 					if (part.thought === true && part.text) {
 						const thinkingText = part.text;
 
 						if (realThinkingAsContent) {
 							// Stream as content with <thinking> tags (DeepSeek R1 style)
-							if (!hasStartedThinking) {
+							if (!startedThinking.has(index)) {
 								yield {
 									type: "thinking_content",
-									data: "<thinking>\n"
+									data: "<thinking>\n",
+									index
 								};
-								hasStartedThinking = true;
+								startedThinking.add(index);
 							}
 
 							yield {
 								type: "thinking_content",
-								data: thinkingText
+								data: thinkingText,
+								index
 							};
 						} else {
 							// Stream as separate reasoning field
 							yield {
 								type: "real_thinking",
-								data: thinkingText
+								data: thinkingText,
+								index
 							};
 						}
 					}
@@ -635,31 +748,34 @@ export class GeminiApiClient {
 							// Extract thinking content and convert to our format
 							const thinkingMatch = part.text.match(/<think>(.*?)<\/think>/s);
 							if (thinkingMatch) {
-								if (!hasStartedThinking) {
+								if (!startedThinking.has(index)) {
 									yield {
 										type: "thinking_content",
-										data: "<thinking>\n"
+										data: "<thinking>\n",
+										index
 									};
-									hasStartedThinking = true;
+									startedThinking.add(index);
 								}
 
 								yield {
 									type: "thinking_content",
-									data: thinkingMatch[1]
+									data: thinkingMatch[1],
+									index
 								};
 							}
 
 							// Extract any non-thinking coRecentent
 							const nonThinkingContent = part.text.replace(/<think>.*?<\/think>/gs, "").trim();
 							if (nonThinkingContent) {
-								if (hasStartedThinking && !hasClosedThinking) {
+								if (startedThinking.has(index) && !closedThinking.has(index)) {
 									yield {
 										type: "thinking_content",
-										data: "\n</thinking>\n\n"
+										data: "\n</thinking>\n\n",
+										index
 									};
-									hasClosedThinking = true;
+									closedThinking.add(index);
 								}
-								yield { type: "text", data: nonThinkingContent };
+								yield { type: "text", data: nonThinkingContent, index };
 							}
 						} else {
 							// Stream thinking as separate reasoning field
@@ -667,39 +783,42 @@ export class GeminiApiClient {
 							if (thinkingMatch) {
 								yield {
 									type: "real_thinking",
-									data: thinkingMatch[1]
+									data: thinkingMatch[1],
+									index
 								};
 							}
 
 							// Stream non-thinking content as regular text
 							const nonThinkingContent = part.text.replace(/<think>.*?<\/think>/gs, "").trim();
 							if (nonThinkingContent) {
-								yield { type: "text", data: nonThinkingContent };
+								yield { type: "text", data: nonThinkingContent, index };
 							}
 						}
 					}
 					// Handle regular content - only if it's not a thinking part and doesn't contain <think> tags
 					else if (part.text && !part.thought && !part.text.includes("<think>")) {
 						// Close thinking tag before first real content if needed
-						if ((needsThinkingClose || (realThinkingAsContent && hasStartedThinking)) && !hasClosedThinking) {
+						if ((closesFakeThinking || (realThinkingAsContent && startedThinking.has(index))) && !closedThinking.has(index)) {
 							yield {
 								type: "thinking_content",
-								data: "\n</thinking>\n\n"
+								data: "\n</thinking>\n\n",
+								index
 							};
-							hasClosedThinking = true;
+							closedThinking.add(index);
 						}
 
-						yield { type: "text", data: part.text };
+						yield { type: "text", data: part.text, index };
 					}
 					// Handle function calls from Gemini
 					else if (part.functionCall) {
 						// Close thinking tag before function call if needed
-						if ((needsThinkingClose || (realThinkingAsContent && hasStartedThinking)) && !hasClosedThinking) {
+						if ((closesFakeThinking || (realThinkingAsContent && startedThinking.has(index))) && !closedThinking.has(index)) {
 							yield {
 								type: "thinking_content",
-								data: "\n</thinking>\n\n"
+								data: "\n</thinking>\n\n",
+								index
 							};
-							hasClosedThinking = true;
+							closedThinking.add(index);
 						}
 
 						const functionCallData: GeminiFunctionCall = {
@@ -709,11 +828,16 @@ export class GeminiApiClient {
 
 						yield {
 							type: "tool_code",
-							data: functionCallData
+							data: functionCallData,
+							index
 						};
 					}
 					// Note: Skipping unknown part structures
 				}
+
+				if (candidate.finishReason) {
+					yield { type: "finish_reason", data: candidate.finishReason, index };
+				}
 			}
 
 			if (jsonData.response?.usageMetadata) {
@@ -731,82 +855,216 @@ export class GeminiApiClient {
 	}
 
 	/**
-	 * Get a complete response from Gemini API (non-streaming).
+	 * Posts a native Gemini request wrapped in the Code Assist envelope.
+	 * Uses the pool's OAuth token (with one 401 retry) unless a raw apiKey is supplied by KeyRotator.
+	 * Rate-limited OAuth requests move on to the next model of fallbackModels; KeyRotator runs its own chain.
 	 */
-	async getCompletion(
+	private async postNativeRequest(
+		method: "generateContent" | "streamGenerateContent",
 		modelId: string,
-		systemPrompt: string,
-		messages: ChatMessage[],
-		options?: {
-			includeReasoning?: boolean;
-			thinkingBudget?: number;
-			tools?: Tool[];
-			tool_choice?: ToolChoice;
-			max_tokens?: number;
-			temperature?: number;
-			top_p?: number;
-			stop?: string | string[];
-			presence_penalty?: number;
-			frequency_penalty?: number;
-			seed?: number;
-			response_format?: {
-				type: "text" | "json_object";
-			};
+		request: Record<string, unknown>,
+		apiKey?: string,
+		isRetry: boolean = false,
+		fallbackModels: string[] = []
+	): Promise<Response> {
+		let projectId: string | null;
+		if (apiKey) {
+			projectId = this.env.GEMINI_PROJECT_ID || this.projectId;
+			if (!projectId) {
+				throw new Error("GEMINI_PROJECT_ID is required when calling the native API with a raw API key");
+			}
+		} else {
+			await this.authManager.initializeAuth();
+			projectId = await this.discoverProjectId();
 		}
-	): Promise<{
-		content: string;
-		usage?: UsageData;
-		tool_calls?: Array<{ id: string; type: "function"; function: { name: string; arguments: string } }>;
-	}> {
-		try {
-			let content = "";
-			let usage: UsageData | undefined;
-			const tool_calls: Array<{ id: string; type: "function"; function: { name: string; arguments: string } }> = [];
-
-			// Collect all chunks from the stream
-			for await (const chunk of this.streamContent(modelId, systemPrompt, messages, options)) {
-				if (chunk.type === "text" && typeof chunk.data === "string") {
-					content += chunk.data;
-				} else if (chunk.type === "usage" && typeof chunk.data === "object") {
-					usage = chunk.data as UsageData;
-				} else if (chunk.type === "tool_code" && typeof chunk.data === "object") {
-					const toolData = chunk.data as GeminiFunctionCall;
-					tool_calls.push({
-						id: `call_${crypto.randomUUID()}`,
-						type: "function",
-						function: {
-							name: toolData.name,
-							arguments: JSON.stringify(toolData.args)
-						}
-					});
+
+		const query = method === "streamGenerateContent" ? "?alt=sse" : "";
+		const send = () =>
+			fetch(`${CODE_ASSIST_ENDPOINT}/${CODE_ASSIST_API_VERSION}:${method}${query}`, {
+				method: "POST",
+				headers: {
+					"Content-Type": "application/json",
+					Authorization: `Bearer ${apiKey ?? this.authManager.getAccessToken()}`
+				},
+				body: JSON.stringify({ model: modelId, project: projectId, request })
+			});
+		// Raw API key requests belong to the KeyRotator, not to this pool client
+		const response = apiKey ? await send() : await this.trackRequest(send, (res) => res.ok);
+
+		if (!response.ok) {
+			if (!apiKey) {
+				if (response.status === 401 && !isRetry) {
+					console.log(`Got 401 error in native ${method} request, clearing token cache and retrying...`);
+					await this.authManager.clearTokenCache();
+					await this.authManager.initializeAuth();
+					return this.postNativeRequest(method, modelId, request, apiKey, true, fallbackModels); // Retry once
+				}
+				this.recordError(response.status);
+
+				if (this.autoSwitchHelper.isRateLimitStatus(response.status) && fallbackModels.length > 0) {
+					const [fallbackModel, ...remainingModels] = fallbackModels;
+					console.log(`Got ${response.status} error in native ${method} for model ${modelId}, switching to fallback model: ${fallbackModel}`);
+					await response.body?.cancel();
+					return this.postNativeRequest(method, fallbackModel, request, apiKey, false, remainingModels);
 				}
-				// Skip reasoning chunks for non-streaming responses
 			}
+			const errorText = await response.text();
+			console.error(`[GeminiAPI] Native ${method} failed: ${response.status}`, errorText);
+			throw Object.assign(new Error(`Native ${method} request failed: ${response.status}`), {
+				status: response.status,
+				body: errorText
+			});
+		}
 
-			return {
-				content,
-				usage,
-				tool_calls: tool_calls.length > 0 ? tool_calls : undefined
-			};
-		} catch (error: unknown) {
-			// Handle rate limiting for non-streaming requests
-			console.log(`[DEBUG] getCompletion - error: ${JSON.stringify(error)}, modelId: ${modelId}, isEnabled: ${this.autoSwitchHelper.isEnabled()}, fallbackModel: ${this.autoSwitchHelper.getFallbackModel(modelId)}`);
-			if (this.autoSwitchHelper.isRateLimitError(error)) {
-				const fallbackResult = await this.autoSwitchHelper.handleNonStreamingFallback(
-					modelId,
-					systemPrompt,
-					messages,
-					options,
-					this.streamContent.bind(this)
-				);
-				if (fallbackResult) {
-					return fallbackResult;
+		if (apiKey) {
+			this.callCount++;
+		} else {
+			this.recordSuccess();
+		}
+		return response;
+	}
+
+	/**
+	 * Sends a native Gemini generateContent request and returns the unwrapped GenerateContentResponse.
+	 */
+	async generateNativeContent(
+		modelId: string,
+		request: Record<string, unknown>,
+		apiKey?: string,
+		options?: Pick<GeminiRequestOptions, "allowFallback" | "tenant">
+	): Promise<Record<string, unknown>> {
+		const response = await this.postNativeRequest(
+			"generateContent",
+			modelId,
+			request,
+			apiKey,
+			false,
+			this.getNativeFallbackModels(modelId, apiKey, options)
+		);
+		const json = (await response.json()) as { response?: Record<string, unknown> };
+		return json.response ?? {};
+	}
+
+	/**
+	 * Streams native Gemini GenerateContentResponse chunks, unwrapped from the Code Assist envelope.
+	 */
+	async *streamNativeContent(
+		modelId: string,
+		request: Record<string, unknown>,
+		apiKey?: string,
+		options?: Pick<GeminiRequestOptions, "allowFallback" | "tenant">
+	): AsyncGenerator<Record<string, unknown>> {
+		const response = await this.postNativeRequest(
+			"streamGenerateContent",
+			modelId,
+			request,
+			apiKey,
+			false,
+			this.getNativeFallbackModels(modelId, apiKey, options)
+		);
+		if (!response.body) {
+			throw new Error("Response has no body");
+		}
+		for await (const jsonData of this.parseSSEStream(response.body)) {
+			if (jsonData.response) {
+				yield jsonData.response as Record<string, unknown>;
+			}
+		}
+	}
+
+	// Raw API key requests fall back through KeyRotator, which retries every key before switching models
+	private getNativeFallbackModels(
+		modelId: string,
+		apiKey: string | undefined,
+		options?: Pick<GeminiRequestOptions, "allowFallback" | "tenant">
+	): string[] {
+		return apiKey ? [] : this.autoSwitchHelper.getModelChain(modelId, options).slice(1);
+	}
+
+	/**
+	 * Counts the prompt tokens of a conversation with the Code Assist countTokens method.
+	 * The system prompt is counted as a leading user turn, since countTokens only accepts contents.
+	 */
+	async countTokens(modelId: string, systemPrompt: string, messages: ChatMessage[]): Promise<number> {
+		const { contents, systemInstruction } = await this.buildContents(systemPrompt, messages);
+		const response = (await this.trackRequest(() =>
+			this.authManager.callEndpoint("countTokens", {
+				request: {
+					model: `models/${modelId}`,
+					contents: systemInstruction ? [systemInstruction, ...contents] : contents
 				}
+			})
+		)) as { totalTokens?: number };
+		this.recordSuccess();
+		return response.totalTokens ?? 0;
+	}
+
+	/**
+	 * Collects streamed chunks into a CompletionResult, grouping text and tool calls by candidate index.
+	 * Reasoning chunks are skipped for non-streaming responses.
+	 */
+	private async collectCompletion(stream: AsyncGenerator<StreamChunk>): Promise<CompletionResult> {
+		const candidates = new Map<number, CompletionCandidate>();
+		let usage: UsageData | undefined;
+		let modelSwitch: ModelSwitchData | undefined;
+
+		const getCandidate = (index: number): CompletionCandidate => {
+			let candidate = candidates.get(index);
+			if (!candidate) {
+				candidate = { index, content: "" };
+				candidates.set(index, candidate);
 			}
+			return candidate;
+		};
 
-			// Re-throw if not a rate limit error or fallback not available
-			throw error;
+		for await (const chunk of stream) {
+			if (chunk.type === "text" && typeof chunk.data === "string") {
+				getCandidate(chunk.index ?? 0).content += chunk.data;
+			} else if (chunk.type === "usage" && typeof chunk.data === "object") {
+				usage = chunk.data as UsageData;
+			} else if (chunk.type === "finish_reason" && typeof chunk.data === "string") {
+				getCandidate(chunk.index ?? 0).finish_reason = chunk.data;
+			} else if (chunk.type === "model_switch" && typeof chunk.data === "object") {
+				modelSwitch = chunk.data as ModelSwitchData;
+			} else if (chunk.type === "tool_code" && typeof chunk.data === "object") {
+				const toolData = chunk.data as GeminiFunctionCall;
+				const candidate = getCandidate(chunk.index ?? 0);
+				candidate.tool_calls = candidate.tool_calls ?? [];
+				candidate.tool_calls.push({
+					id: `call_${crypto.randomUUID()}`,
+					type: "function",
+					function: {
+						name: toolData.name,
+						arguments: JSON.stringify(toolData.args)
+					}
+				});
+			}
 		}
+
+		const first = candidates.get(0);
+		const ordered = [...candidates.values()].sort((a, b) => a.index - b.index);
+		return {
+			content: first?.content ?? "",
+			usage,
+			tool_calls: first?.tool_calls,
+			finish_reason: first?.finish_reason,
+			// Only reported when more than one candidate was generated (n > 1)
+			candidates: ordered.length > 1 ? ordered : undefined,
+			modelSwitch
+		};
+	}
+
+	/**
+	 * Get a complete response from Gemini API (non-streaming).
+	 */
+	async getCompletion(
+		modelId: string,
+		systemPrompt: string,
+		messages: ChatMessage[],
+		options?: GeminiRequestOptions
+	): Promise<CompletionResult> {
+		// Rate limits are already handled by the fallback chain of the underlying stream
+		return this.collectCompletion(this.streamContent(modelId, systemPrompt, messages, options));
 	}
 
 	/**
@@ -819,22 +1077,7 @@ export class GeminiApiClient {
 		modelId: string,
 		systemPrompt: string,
 		messages: ChatMessage[],
-		options?: {
-			includeReasoning?: boolean;
-			thinkingBudget?: number;
-			tools?: Tool[];
-			tool_choice?: ToolChoice;
-			max_tokens?: number;
-			temperature?: number;
-			top_p?: number;
-			stop?: string | string[];
-			presence_penalty?: number;
-			frequency_penalty?: number;
-			seed?: number;
-			response_format?: {
-				type: "text" | "json_object";
-			};
-		}
+		options?: GeminiRequestOptions
 	): AsyncGenerator<StreamChunk> {
 		// NOTE: This method intentionally avoids using this.authManager since we're using a raw apiKey.
 		// Project discovery requires a project id; prefer env var, then instance projectId.
@@ -843,13 +1086,9 @@ export class GeminiApiClient {
 			throw new Error("GEMINI_PROJECT_ID is required when calling streamContentWithApiKey");
 		}
 
-		const contents = messages.map((msg) => this.messageToGeminiFormat(msg));
-
-		if (systemPrompt) {
-			contents.unshift({ role: "user", parts: [{ text: systemPrompt }] });
-		}
+		const { contents, systemInstruction } = await this.buildContents(systemPrompt, messages);
 
-		const isThinkingModel = geminiCliModels[modelId]?.thinking || false;
+		const isThinkingModel = getModelInfo(modelId)?.thinking || false;
 		const isRealThinkingEnabled = this.env.ENABLE_REAL_THINKING === "true";
 		const isFakeThinkingEnabled = this.env.ENABLE_FAKE_THINKING === "true";
 		const streamThinkingAsContent = this.env.STREAM_THINKING_AS_CONTENT === "true";
@@ -866,6 +1105,7 @@ export class GeminiApiClient {
 			presence_penalty: options?.presence_penalty,
 			frequency_penalty: options?.frequency_penalty,
 			seed: options?.seed,
+			n: options?.n,
 			response_format: options?.response_format
 		};
 
@@ -890,6 +1130,7 @@ export class GeminiApiClient {
 			project: projectId,
 			request: {
 				contents: contents,
+				systemInstruction,
 				generationConfig,
 				tools: tools,
 				toolConfig
@@ -919,35 +1160,44 @@ export class GeminiApiClient {
 
 		this.callCount++; // optimistic increment for successful network response
 
-		let hasClosedThinking = false;
-		let hasStartedThinking = false;
+		// Thinking tags are opened and closed per candidate
+		const startedThinking = new Set<number>();
+		const closedThinking = new Set<number>();
 
 		for await (const jsonData of this.parseSSEStream(response.body)) {
-			const candidate = jsonData.response?.candidates?.[0];
+			this.throwIfPromptBlocked(jsonData);
+			const candidates = jsonData.response?.candidates ?? [];
+
+			for (const [position, candidate] of candidates.entries()) {
+				const index = candidate.index ?? position;
+				// Fake thinking is only streamed ahead of the first candidate
+				const closesFakeThinking = needsThinkingClose && index === 0;
 
-			if (candidate?.content?.parts) {
-				for (const part of candidate.content.parts as GeminiPart[]) {
+				for (const part of (candidate.content?.parts ?? []) as GeminiPart[]) {
 					// Reuse same chunk handling logic as performStreamRequest
 					if (part.thought === true && part.text) {
 						const thinkingText = part.text;
 
 						if (includeReasoning && streamThinkingAsContent) {
-							if (!hasStartedThinking) {
+							if (!startedThinking.has(index)) {
 								yield {
 									type: "thinking_content",
-									data: "<thinking>\n"
+									data: "<thinking>\n",
+									index
 								};
-								hasStartedThinking = true;
+								startedThinking.add(index);
 							}
 
 							yield {
 								type: "thinking_content",
-								data: thinkingText
+								data: thinkingText,
+								index
 							};
 						} else if (includeReasoning) {
 							yield {
 								type: "real_thinking",
-								data: thinkingText
+								data: thinkingText,
+								index
 							};
 						} else {
 							// If reasoning not requested, skip thought parts
@@ -956,64 +1206,70 @@ export class GeminiApiClient {
 						if (includeReasoning && streamThinkingAsContent) {
 							const thinkingMatch = part.text.match(/<think>(.*?)<\/think>/s);
 							if (thinkingMatch) {
-								if (!hasStartedThinking) {
+								if (!startedThinking.has(index)) {
 									yield {
 										type: "thinking_content",
-										data: "<thinking>\n"
+										data: "<thinking>\n",
+										index
 									};
-									hasStartedThinking = true;
+									startedThinking.add(index);
 								}
 								yield {
 									type: "thinking_content",
-									data: thinkingMatch[1]
+									data: thinkingMatch[1],
+									index
 								};
 							}
 
 							const nonThinkingContent = part.text.replace(/<think>.*?<\/think>/gs, "").trim();
 							if (nonThinkingContent) {
-								if (hasStartedThinking && !hasClosedThinking) {
+								if (startedThinking.has(index) && !closedThinking.has(index)) {
 									yield {
 										type: "thinking_content",
-										data: "\n</thinking>\n\n"
+										data: "\n</thinking>\n\n",
+										index
 									};
-									hasClosedThinking = true;
+									closedThinking.add(index);
 								}
-								yield { type: "text", data: nonThinkingContent };
+								yield { type: "text", data: nonThinkingContent, index };
 							}
 						} else if (includeReasoning) {
 							const thinkingMatch = part.text.match(/<think>(.*?)<\/think>/s);
 							if (thinkingMatch) {
 								yield {
 									type: "real_thinking",
-									data: thinkingMatch[1]
+									data: thinkingMatch[1],
+									index
 								};
 							}
 							const nonThinkingContent = part.text.replace(/<think>.*?<\/think>/gs, "").trim();
 							if (nonThinkingContent) {
-								yield { type: "text", data: nonThinkingContent };
+								yield { type: "text", data: nonThinkingContent, index };
 							}
 						} else {
 							// No reasoning requested; stream as normal text
 							const nonThinkingContent = part.text.replace(/<think>.*?<\/think>/gs, "").trim();
-							if (nonThinkingContent) yield { type: "text", data: nonThinkingContent };
+							if (nonThinkingContent) yield { type: "text", data: nonThinkingContent, index };
 						}
 					} else if (part.text && !part.thought && !part.text.includes("<think>")) {
-						if ((needsThinkingClose || (includeReasoning && hasStartedThinking)) && !hasClosedThinking) {
+						if ((closesFakeThinking || (includeReasoning && startedThinking.has(index))) && !closedThinking.has(index)) {
 							yield {
 								type: "thinking_content",
-								data: "\n</thinking>\n\n"
+								data: "\n</thinking>\n\n",
+								index
 							};
-							hasClosedThinking = true;
+							closedThinking.add(index);
 						}
 
-						yield { type: "text", data: part.text };
+						yield { type: "text", data: part.text, index };
 					} else if (part.functionCall) {
-						if ((needsThinkingClose || (includeReasoning && hasStartedThinking)) && !hasClosedThinking) {
+						if ((closesFakeThinking || (includeReasoning && startedThinking.has(index))) && !closedThinking.has(index)) {
 							yield {
 								type: "thinking_content",
-								data: "\n</thinking>\n\n"
+								data: "\n</thinking>\n\n",
+								index
 							};
-							hasClosedThinking = true;
+							closedThinking.add(index);
 						}
 
 						const functionCallData: GeminiFunctionCall = {
@@ -1023,10 +1279,15 @@ export class GeminiApiClient {
 
 						yield {
 							type: "tool_code",
-							data: functionCallData
+							data: functionCallData,
+							index
 						};
 					}
 				}
+
+				if (candidate.finishReason) {
+					yield { type: "finish_reason", data: candidate.finishReason, index };
+				}
 			}
 
 			if (jsonData.response?.usageMetadata) {
@@ -1051,55 +1312,12 @@ export class GeminiApiClient {
 		modelId: string,
 		systemPrompt: string,
 		messages: ChatMessage[],
-		options?: {
-			includeReasoning?: boolean;
-			thinkingBudget?: number;
-			tools?: Tool[];
-			tool_choice?: ToolChoice;
-			max_tokens?: number;
-			temperature?: number;
-			top_p?: number;
-			stop?: string | string[];
-			presence_penalty?: number;
-			frequency_penalty?: number;
-			seed?: number;
-			response_format?: {
-				type: "text" | "json_object";
-			};
-		}
-	): Promise<{
-		content: string;
-		usage?: UsageData;
-		tool_calls?: Array<{ id: string; type: "function"; function: { name: string; arguments: string } }>;
-	}> {
+		options?: GeminiRequestOptions
+	): Promise<CompletionResult> {
 		try {
-			let content = "";
-			let usage: UsageData | undefined;
-			const tool_calls: Array<{ id: string; type: "function"; function: { name: string; arguments: string } }> = [];
-
-			for await (const chunk of this.streamContentWithApiKey(apiKey, modelId, systemPrompt, messages, options)) {
-				if (chunk.type === "text" && typeof chunk.data === "string") {
-					content += chunk.data;
-				} else if (chunk.type === "usage" && typeof chunk.data === "object") {
-					usage = chunk.data as UsageData;
-				} else if (chunk.type === "tool_code" && typeof chunk.data === "object") {
-					const toolData = chunk.data as GeminiFunctionCall;
-					tool_calls.push({
-						id: `call_${crypto.randomUUID()}`,
-						type: "function",
-						function: {
-							name: toolData.name,
-							arguments: JSON.stringify(toolData.args)
-						}
-					});
-				}
-			}
-
-			return {
-				content,
-				usage,
-				tool_calls: tool_calls.length > 0 ? tool_calls : undefined
-			};
+			return await this.collectCompletion(
+				this.streamContentWithApiKey(apiKey, modelId, systemPrompt, messages, options)
+			);
 		} catch (error: unknown) {
 			// Bubble up for KeyRotator to inspect; preserve status if available
 			throw error;
@@ -1,9 +1,18 @@
-import { AUTO_SWITCH_MODEL_MAP, RATE_LIMIT_STATUS_CODES } from "../constants";
-import { Env, ChatMessage, UsageData, StreamChunk } from "../types";
+import { DEFAULT_FALLBACK_CHAINS, RATE_LIMIT_STATUS_CODES } from "../constants";
+import { Env, FallbackChainConfig, GeminiRequestOptions, StreamChunk } from "../types";
+import { isValidModel, resolveModelId } from "../models";
+
+// How each fallback reason is worded in the optional text notice
+const SWITCH_REASON_DESCRIPTIONS: Record<string, string> = {
+	rate_limited: "rate limiting",
+	unavailable: "the model being unavailable",
+	keys_exhausted: "all API keys being exhausted"
+};
 
 /**
  * Helper class for handling automatic model switching on rate limit errors.
- * Provides centralized logic for detecting rate limits and managing fallback models.
+ * Provides the fallback chains shared by the OAuth pool and the raw-key KeyRotator, so both
+ * switch models the same way: FALLBACK_CHAINS (optionally per tenant) or the default chains.
  */
 export class AutoModelSwitchingHelper {
 	private env: Env;
@@ -25,21 +34,60 @@ export class AutoModelSwitchingHelper {
 	}
 
 	/**
-	 * Gets the fallback model for the given original model.
-	 * Returns null if no fallback is configured for the model.
+	 * Parses FALLBACK_CHAINS, falling back to the default chains when it is unset or invalid.
 	 */
-	getFallbackModel(originalModel: string): string | null {
-		return AUTO_SWITCH_MODEL_MAP[originalModel as keyof typeof AUTO_SWITCH_MODEL_MAP] || null;
+	private getChainConfig(): FallbackChainConfig {
+		if (!this.env.FALLBACK_CHAINS) {
+			return { chains: DEFAULT_FALLBACK_CHAINS };
+		}
+		try {
+			const config = JSON.parse(this.env.FALLBACK_CHAINS) as FallbackChainConfig;
+			return { chains: config.chains ?? DEFAULT_FALLBACK_CHAINS, tenants: config.tenants };
+		} catch (e) {
+			console.error("Ignoring invalid FALLBACK_CHAINS:", e);
+			return { chains: DEFAULT_FALLBACK_CHAINS };
+		}
 	}
 
 	/**
-	 * Checks if the error message indicates a rate limit error that should trigger auto switching.
+	 * Gets the fallback models for a model, in the order they should be tried.
+	 * A tenant's chain replaces the global one for that model. Aliases are resolved, and unknown
+	 * models, repeats and the model itself are skipped.
 	 */
-	isRateLimitError(error: unknown): boolean {
-		return (
-			error instanceof Error &&
-			(error.message.includes("Stream request failed: 429") || error.message.includes("Stream request failed: 503"))
-		);
+	getFallbackChain(originalModel: string, tenant?: string): string[] {
+		const config = this.getChainConfig();
+		const configured =
+			(tenant ? config.tenants?.[tenant]?.[originalModel] : undefined) ?? config.chains?.[originalModel] ?? [];
+
+		const chain: string[] = [];
+		for (const entry of configured) {
+			const model = resolveModelId(entry);
+			if (!isValidModel(model)) {
+				console.warn(`[AutoModelSwitching] Skipping unknown fallback model '${entry}' for ${originalModel}`);
+			} else if (model !== originalModel && !chain.includes(model)) {
+				chain.push(model);
+			}
+		}
+		return chain;
+	}
+
+	/**
+	 * Gets the models to try for a request: the requested model followed by its fallback chain,
+	 * unless auto switching is disabled or the request opted out with allow_fallback: false.
+	 */
+	getModelChain(originalModel: string, options?: Pick<GeminiRequestOptions, "allowFallback" | "tenant">): string[] {
+		if (!this.isEnabled() || options?.allowFallback === false) {
+			return [originalModel];
+		}
+		return [originalModel, ...this.getFallbackChain(originalModel, options?.tenant)];
+	}
+
+	/**
+	 * Gets the first fallback model for the given original model.
+	 * Returns null if no fallback is configured for the model.
+	 */
+	getFallbackModel(originalModel: string, tenant?: string): string | null {
+		return this.getFallbackChain(originalModel, tenant)[0] ?? null;
 	}
 
 	/**
@@ -57,58 +105,36 @@ export class AutoModelSwitchingHelper {
 	}
 
 	/**
-	 * Creates a notification message for when a model switch occurs.
+	 * Maps the upstream status that triggered a fallback to the reason reported to clients.
 	 */
-	createSwitchNotification(originalModel: string, fallbackModel: string): string {
-		return `[Auto-switched from ${originalModel} to ${fallbackModel} due to rate limiting]\n\n`;
+	getFallbackReason(status: number): string {
+		return status === 429 ? "rate_limited" : "unavailable";
 	}
 
 	/**
-	 * Handles rate limit fallback for non-streaming requests.
-	 * This method requires a stream content function to perform the actual retry.
+	 * Checks if the legacy text notice should be written into the response content on a switch.
 	 */
-	async handleNonStreamingFallback(
-		originalModel: string,
-		systemPrompt: string,
-		messages: ChatMessage[],
-		options:
-			| {
-					includeReasoning?: boolean;
-					thinkingBudget?: number;
-			  }
-			| undefined,
-		streamContentFn: (
-			modelId: string,
-			systemPrompt: string,
-			messages: ChatMessage[],
-			options?: {
-				includeReasoning?: boolean;
-				thinkingBudget?: number;
-			}
-		) => AsyncGenerator<StreamChunk>
-	): Promise<{ content: string; usage?: UsageData } | null> {
-		const fallbackModel = this.getFallbackModel(originalModel);
-		if (!fallbackModel || !this.isEnabled()) {
-			return null;
-		}
-
-		console.log(`Got rate limit error for model ${originalModel}, switching to fallback model: ${fallbackModel}`);
-
-		let content = "";
-		let usage: UsageData | undefined;
-
-		// Add notification about model switch
-		content += this.createSwitchNotification(originalModel, fallbackModel);
+	isSwitchNoticeEnabled(): boolean {
+		return this.env.ENABLE_MODEL_SWITCH_NOTICE === "true";
+	}
 
-		// Collect all chunks from the stream with fallback model
-		for await (const chunk of streamContentFn(fallbackModel, systemPrompt, messages, options)) {
-			if (chunk.type === "text" && typeof chunk.data === "string") {
-				content += chunk.data;
-			} else if (chunk.type === "usage" && typeof chunk.data === "object") {
-				usage = chunk.data as UsageData;
-			}
+	/**
+	 * Creates the chunks announcing a model switch: a model_switch chunk the routes turn into the
+	 * response model and headers, plus a text notice only when ENABLE_MODEL_SWITCH_NOTICE is "true",
+	 * since text in the content breaks JSON-mode and tool-using clients.
+	 */
+	createSwitchChunks(requestedModel: string, servedModel: string, reason: string): StreamChunk[] {
+		const chunks: StreamChunk[] = [{ type: "model_switch", data: { requestedModel, servedModel, reason } }];
+		if (this.isSwitchNoticeEnabled()) {
+			chunks.push({ type: "text", data: this.createSwitchNotification(requestedModel, servedModel, reason) });
 		}
+		return chunks;
+	}
 
-		return { content, usage };
+	/**
+	 * Creates a notification message for when a model switch occurs, naming the reason reported for it.
+	 */
+	createSwitchNotification(originalModel: string, fallbackModel: string, reason: string): string {
+		return `[Auto-switched from ${originalModel} to ${fallbackModel} due to ${SWITCH_REASON_DESCRIPTIONS[reason] ?? reason}]\n\n`;
 	}
 }
@@ -0,0 +1,167 @@
+import { CircuitBreakerConfig, CircuitFailureType, CircuitSnapshot, CircuitState, Env } from "../types";
+import {
+	CIRCUIT_BREAKER_FAILURE_THRESHOLDS,
+	CIRCUIT_BREAKER_HALF_OPEN_PROBES,
+	CIRCUIT_BREAKER_OPEN_SECONDS,
+	CIRCUIT_BREAKER_PROBE_TIMEOUT_MS
+} from "../constants";
+
+/**
+ * Per-client circuit breaker for the OAuth pool.
+ * Closed: requests flow and consecutive failures are counted per type. Once a type reaches its
+ * threshold the circuit opens and the pool skips the client for that type's open period. Then it is
+ * half-open: a limited number of probe requests go through, and the first result closes the circuit
+ * again or reopens it.
+ */
+export class CircuitBreaker {
+	private readonly id: string;
+	private config: CircuitBreakerConfig;
+	private state: CircuitState = "closed";
+	private failureCounts: Record<CircuitFailureType, number> = { auth: 0, rate_limit: 0, server: 0 };
+	private lastFailureType?: CircuitFailureType;
+	private openedAt?: number;
+	private retryAt?: number;
+	private probeStartTimes: number[] = [];
+
+	constructor(id: string, config: CircuitBreakerConfig) {
+		this.id = id;
+		this.config = config;
+	}
+
+	/**
+	 * Builds the breaker config from the defaults, MAX_ERROR_COUNT and the CIRCUIT_BREAKER JSON.
+	 */
+	static parseConfig(env: Env): CircuitBreakerConfig {
+		const maxErrorCount = parseInt(env.MAX_ERROR_COUNT || "", 10);
+		const config: CircuitBreakerConfig = {
+			failureThresholds: {
+				...CIRCUIT_BREAKER_FAILURE_THRESHOLDS,
+				...(maxErrorCount > 0 ? { server: maxErrorCount } : {})
+			},
+			openSeconds: { ...CIRCUIT_BREAKER_OPEN_SECONDS },
+			halfOpenProbes: CIRCUIT_BREAKER_HALF_OPEN_PROBES
+		};
+		if (!env.CIRCUIT_BREAKER) {
+			return config;
+		}
+
+		try {
+			const overrides = JSON.parse(env.CIRCUIT_BREAKER) as Partial<CircuitBreakerConfig>;
+			return {
+				failureThresholds: { ...config.failureThresholds, ...overrides.failureThresholds },
+				openSeconds: { ...config.openSeconds, ...overrides.openSeconds },
+				halfOpenProbes: overrides.halfOpenProbes ?? config.halfOpenProbes
+			};
+		} catch (e) {
+			console.error("Ignoring invalid CIRCUIT_BREAKER:", e);
+			return config;
+		}
+	}
+
+	/**
+	 * Maps an upstream status to the failure type it counts as. Other 4xx errors are caused by the
+	 * request rather than the credential, so they return null and don't count against the client.
+	 */
+	static classifyStatus(status?: number): CircuitFailureType | null {
+		if (status === 401 || status === 403) return "auth";
+		if (status === 429) return "rate_limit";
+		if (status === undefined || status >= 500) return "server";
+		return null;
+	}
+
+	/**
+	 * Checks whether a request may use the client now. While half-open this takes one of the probe slots.
+	 */
+	tryAcquire(): boolean {
+		this.refresh();
+		if (this.state === "closed") {
+			return true;
+		}
+		if (this.state === "open") {
+			return false;
+		}
+
+		const now = Date.now();
+		this.probeStartTimes = this.probeStartTimes.filter(
+			(startedAt) => now - startedAt < CIRCUIT_BREAKER_PROBE_TIMEOUT_MS
+		);
+		if (this.probeStartTimes.length >= this.config.halfOpenProbes) {
+			return false;
+		}
+		this.probeStartTimes.push(now);
+		console.log(`[CircuitBreaker] ${this.id} is half-open, sending a probe request`);
+		return true;
+	}
+
+	/**
+	 * Records a successful upstream call, closing a half-open circuit.
+	 * Successes of requests started before the circuit opened are ignored.
+	 */
+	recordSuccess(): void {
+		this.refresh();
+		if (this.state === "open") {
+			return;
+		}
+		if (this.state === "half_open") {
+			console.log(`[CircuitBreaker] ${this.id} probe succeeded, closing the circuit`);
+		}
+		this.state = "closed";
+		this.failureCounts = { auth: 0, rate_limit: 0, server: 0 };
+		this.probeStartTimes = [];
+		this.openedAt = undefined;
+		this.retryAt = undefined;
+	}
+
+	/**
+	 * Records a failed upstream call by its HTTP status (undefined for network errors or missing bodies).
+	 */
+	recordFailure(status?: number): void {
+		const type = CircuitBreaker.classifyStatus(status);
+		if (!type) {
+			// The credential was accepted; only the request was rejected
+			this.recordSuccess();
+			return;
+		}
+
+		this.refresh();
+		this.lastFailureType = type;
+		if (this.state === "half_open") {
+			this.open(type);
+		} else if (this.state === "closed") {
+			this.failureCounts[type]++;
+			if (this.failureCounts[type] >= this.config.failureThresholds[type]) {
+				this.open(type);
+			}
+		}
+	}
+
+	getSnapshot(): CircuitSnapshot {
+		this.refresh();
+		return {
+			state: this.state,
+			lastFailureType: this.lastFailureType,
+			openedAt: this.openedAt,
+			retryAt: this.retryAt
+		};
+	}
+
+	private open(type: CircuitFailureType): void {
+		const now = Date.now();
+		this.state = "open";
+		this.openedAt = now;
+		this.retryAt = now + this.config.openSeconds[type] * 1000;
+		this.failureCounts = { auth: 0, rate_limit: 0, server: 0 };
+		this.probeStartTimes = [];
+		console.log(
+			`[CircuitBreaker] ${this.id} opened after ${type} failures, retrying at ${new Date(this.retryAt).toISOString()}`
+		);
+	}
+
+	// Moves an open circuit to half-open once its open period has passed
+	private refresh(): void {
+		if (this.state === "open" && this.retryAt !== undefined && Date.now() >= this.retryAt) {
+			this.state = "half_open";
+			this.probeStartTimes = [];
+		}
+	}
+}
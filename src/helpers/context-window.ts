@@ -0,0 +1,100 @@
+import { ChatMessage } from "../types";
+import { getModelInfo } from "../models";
+import { CONTEXT_TRUNCATION_HEADER } from "../config";
+import { estimateConversationTokens, estimateMessageTokens } from "../utils/token-utils";
+
+export interface ContextFitResult {
+	messages: ChatMessage[];
+	estimatedTokens: number;
+	error?: string; // Set when the conversation can't be made to fit
+}
+
+/**
+ * Helper class for the context window preflight.
+ * Estimates the prompt size before dispatch so oversized requests are rejected without spending a
+ * key attempt, or, when the client opts in, drops the oldest turns between the system prompt and
+ * the most recent turn until the conversation fits.
+ */
+export class ContextWindowHelper {
+	/**
+	 * Checks whether truncation was requested via the opt-in header or a request parameter.
+	 */
+	static isTruncationRequested(headerValue: string | undefined, truncation?: string): boolean {
+		return (headerValue ?? truncation)?.toLowerCase() === "auto";
+	}
+
+	/**
+	 * Fits a conversation into the model's context window, leaving room for maxOutputTokens.
+	 * Without truncation the messages are returned unchanged or an error is set.
+	 */
+	static fit(
+		model: string,
+		systemPrompt: string,
+		messages: ChatMessage[],
+		maxOutputTokens: number | undefined,
+		truncate: boolean
+	): ContextFitResult {
+		const info = getModelInfo(model);
+		const estimatedTokens = estimateConversationTokens(systemPrompt, messages);
+		if (!info) {
+			return { messages, estimatedTokens };
+		}
+
+		const budget = info.contextWindow - (maxOutputTokens ?? 0);
+		if (estimatedTokens <= budget) {
+			return { messages, estimatedTokens };
+		}
+		if (!truncate) {
+			return {
+				messages,
+				estimatedTokens,
+				error: this.buildError(info.contextWindow, estimatedTokens, maxOutputTokens)
+			};
+		}
+
+		// Drop whole turns from the oldest; the most recent turn is always kept
+		const turns = this.groupTurns(messages);
+		let tokens = estimatedTokens;
+		let dropped = 0;
+		while (tokens > budget && dropped < turns.length - 1) {
+			tokens -= turns[dropped].reduce((sum, msg) => sum + estimateMessageTokens(msg), 0);
+			dropped++;
+		}
+		if (tokens > budget) {
+			return { messages, estimatedTokens, error: this.buildError(info.contextWindow, tokens, maxOutputTokens) };
+		}
+
+		const kept = turns.slice(dropped).flat();
+		console.log(
+			`[ContextWindow] Dropped ${messages.length - kept.length} message(s) to fit ${model} (~${tokens}/${budget} tokens)`
+		);
+		return { messages: kept, estimatedTokens: tokens };
+	}
+
+	/**
+	 * Groups messages into turns that can be dropped independently: tool results stay with the
+	 * assistant message whose tool calls they answer, so a call is never separated from its result.
+	 */
+	private static groupTurns(messages: ChatMessage[]): ChatMessage[][] {
+		const turns: ChatMessage[][] = [];
+		for (const msg of messages) {
+			if (msg.role === "tool" && turns.length > 0) {
+				turns[turns.length - 1].push(msg);
+			} else {
+				turns.push([msg]);
+			}
+		}
+		return turns;
+	}
+
+	private static buildError(contextWindow: number, estimatedTokens: number, maxOutputTokens?: number): string {
+		const requested = maxOutputTokens
+			? ` (${estimatedTokens} in the messages, ${maxOutputTokens} in the completion)`
+			: "";
+		return (
+			`This model's maximum context length is ${contextWindow} tokens. However, you requested about ` +
+			`${estimatedTokens + (maxOutputTokens ?? 0)} tokens${requested}. Please reduce the length of the messages, ` +
+			`or send "${CONTEXT_TRUNCATION_HEADER}: auto" to drop older turns automatically.`
+		);
+	}
+}
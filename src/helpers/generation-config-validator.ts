@@ -1,4 +1,4 @@
-import { geminiCliModels } from "../models";
+import { getModelInfo } from "../models";
 import {
 	DEFAULT_THINKING_BUDGET,
 	DEFAULT_TEMPERATURE,
@@ -6,6 +6,7 @@ import {
 	GEMINI_SAFETY_CATEGORIES
 } from "../constants";
 import { ChatCompletionRequest, Env, EffortLevel, SafetyThreshold } from "../types";
+import { toGeminiSchema } from "../utils/schema-utils";
 
 /**
  * Helper class to validate and correct generation configurations for different Gemini models.
@@ -90,7 +91,7 @@ export class GenerationConfigValidator {
 	 * @returns The corrected thinking budget
 	 */
 	static validateThinkingBudget(modelId: string, thinkingBudget: number): number {
-		const modelInfo = geminiCliModels[modelId];
+		const modelInfo = getModelInfo(modelId);
 
 		// For thinking models, validate the budget
 		if (modelInfo?.thinking) {
@@ -136,11 +137,20 @@ export class GenerationConfigValidator {
 			stopSequences: typeof options.stop === "string" ? [options.stop] : options.stop,
 			presencePenalty: options.presence_penalty,
 			frequencyPenalty: options.frequency_penalty,
-			seed: options.seed
+			seed: options.seed,
+			candidateCount: options.n
 		};
 
 		if (options.response_format?.type === "json_object") {
 			generationConfig.responseMimeType = "application/json";
+		} else if (options.response_format?.type === "json_schema") {
+			generationConfig.responseMimeType = "application/json";
+			if (options.response_format.json_schema?.schema) {
+				generationConfig.responseSchema = toGeminiSchema(
+					options.response_format.json_schema.schema,
+					`json_schema '${options.response_format.json_schema.name}'`
+				);
+			}
 		}
 
 		// Add safety settings if environment variables are provided
@@ -151,7 +161,7 @@ export class GenerationConfigValidator {
 			}
 		}
 
-		const modelInfo = geminiCliModels[modelId];
+		const modelInfo = getModelInfo(modelId);
 		const isThinkingModel = modelInfo?.thinking || false;
 
 		if (isThinkingModel) {
@@ -201,19 +211,13 @@ export class GenerationConfigValidator {
 		// Add tools configuration if provided
 		if (Array.isArray(options.tools) && options.tools.length > 0) {
 			const functionDeclarations = options.tools.map((tool) => {
-				let parameters = tool.function.parameters;
-				// Filter parameters for Claude-style compatibility by removing keys starting with '$'
-				if (parameters) {
-					const before = parameters;
-					parameters = Object.keys(parameters)
-						.filter((key) => !key.startsWith("$"))
-						.reduce(
-							(after, key) => {
-								after[key] = before[key];
-								return after;
-							},
-							{} as Record<string, unknown>
-						);
+				// Convert JSON Schema parameters (MCP, LangChain, Pydantic...) into Gemini's schema subset
+				let parameters = tool.function.parameters
+					? toGeminiSchema(tool.function.parameters, `tool '${tool.function.name}'`)
+					: undefined;
+				// Gemini rejects object schemas without properties, so parameterless tools omit them
+				if (parameters && parameters.type === "object" && Object.keys(parameters.properties ?? {}).length === 0) {
+					parameters = undefined;
 				}
 				return {
 					name: tool.function.name,
@@ -229,6 +233,9 @@ export class GenerationConfigValidator {
 					toolConfig = { functionCallingConfig: { mode: "AUTO" } };
 				} else if (options.tool_choice === "none") {
 					toolConfig = { functionCallingConfig: { mode: "NONE" } };
+				} else if (options.tool_choice === "required") {
+					// Force a call to any of the declared functions
+					toolConfig = { functionCallingConfig: { mode: "ANY" } };
 				} else if (typeof options.tool_choice === "object" && options.tool_choice.function) {
 					toolConfig = {
 						functionCallingConfig: {
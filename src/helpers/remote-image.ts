@@ -0,0 +1,225 @@
+import { ChatMessage, Env, MessageContent } from "../types";
+import {
+	REMOTE_IMAGE_CACHE_KEY_PREFIX,
+	REMOTE_IMAGE_CACHE_TTL_SECONDS,
+	REMOTE_IMAGE_FETCH_TIMEOUT_MS,
+	REMOTE_IMAGE_MAX_BYTES,
+	REMOTE_IMAGE_MAX_REDIRECTS
+} from "../constants";
+import { bytesToBase64, detectImageMimeType } from "../utils/image-utils";
+import { getBlockedUrlReason } from "../utils/url-utils";
+
+interface InlineImage {
+	mimeType: string;
+	data: string;
+}
+
+/**
+ * Helper class for http(s) image URLs in chat messages.
+ * Code Assist does not fetch fileData URIs, so remote images are downloaded by the worker and
+ * rewritten into base64 data URLs. Downloads are size-limited and time-limited, the type is taken
+ * from the magic bytes, and results are optionally cached in KV by URL hash (ENABLE_IMAGE_CACHE).
+ * URLs and redirects pointing into private networks are refused. An instance fetches each URL once,
+ * so one per request lets retries and re-asks reuse its images.
+ */
+export class RemoteImageHelper {
+	private env: Env;
+	private images = new Map<string, Promise<InlineImage>>();
+
+	constructor(env: Env) {
+		this.env = env;
+	}
+
+	/**
+	 * Returns the messages with every remote image URL replaced by a data URL.
+	 * Messages without remote images are returned unchanged; each distinct URL is fetched once.
+	 */
+	async inlineRemoteImages(messages: ChatMessage[]): Promise<ChatMessage[]> {
+		const urls = new Set<string>();
+		for (const msg of messages) {
+			if (!Array.isArray(msg.content)) continue;
+			for (const content of msg.content) {
+				if (this.isRemoteImage(content)) urls.add(content.image_url!.url);
+			}
+		}
+		if (urls.size === 0) {
+			return messages;
+		}
+
+		const images = new Map<string, InlineImage>();
+		await Promise.all(
+			[...urls].map(async (url) => {
+				let image = this.images.get(url);
+				if (!image) {
+					image = this.getImage(url);
+					this.images.set(url, image);
+				}
+				images.set(url, await image);
+			})
+		);
+
+		return messages.map((msg) => {
+			if (!Array.isArray(msg.content)) return msg;
+			return {
+				...msg,
+				content: msg.content.map((content) => {
+					if (!this.isRemoteImage(content)) return content;
+					const image = images.get(content.image_url!.url)!;
+					return {
+						...content,
+						image_url: { ...content.image_url!, url: `data:${image.mimeType};base64,${image.data}` }
+					};
+				})
+			};
+		});
+	}
+
+	private isRemoteImage(content: MessageContent): boolean {
+		const url = content.type === "image_url" ? content.image_url?.url : undefined;
+		return !!url && (url.startsWith("http://") || url.startsWith("https://"));
+	}
+
+	/**
+	 * Gets an image from the KV cache when enabled, fetching and caching it otherwise.
+	 */
+	private async getImage(url: string): Promise<InlineImage> {
+		const cacheEnabled = this.env.ENABLE_IMAGE_CACHE === "true";
+		const cacheKey = cacheEnabled ? REMOTE_IMAGE_CACHE_KEY_PREFIX + (await this.hashUrl(url)) : "";
+
+		if (cacheEnabled) {
+			try {
+				const cached = await this.env.GEMINI_CLI_LOADBALANCE.get(cacheKey);
+				if (cached) {
+					console.log(`[RemoteImage] Cache hit for ${url}`);
+					return JSON.parse(cached) as InlineImage;
+				}
+			} catch (kvError) {
+				console.error("[RemoteImage] Failed to read image cache:", kvError);
+			}
+		}
+
+		const image = await this.fetchImage(url);
+
+		if (cacheEnabled) {
+			try {
+				await this.env.GEMINI_CLI_LOADBALANCE.put(cacheKey, JSON.stringify(image), {
+					expirationTtl: REMOTE_IMAGE_CACHE_TTL_SECONDS
+				});
+			} catch (kvError) {
+				// The image is still usable for this request, just not cached
+				console.error("[RemoteImage] Failed to cache image:", kvError);
+			}
+		}
+		return image;
+	}
+
+	/**
+	 * Downloads an image, enforcing REMOTE_IMAGE_MAX_BYTES and REMOTE_IMAGE_FETCH_TIMEOUT_MS.
+	 * Redirects are followed by hand, up to REMOTE_IMAGE_MAX_REDIRECTS, so every hop is checked.
+	 * Failures are client errors (status 400) since the URL comes from the request.
+	 */
+	private async fetchImage(url: string): Promise<InlineImage> {
+		const fail = (reason: string) =>
+			Object.assign(new Error(`Failed to fetch image ${url}: ${reason}`), { status: 400 });
+
+		const controller = new AbortController();
+		const timeout = setTimeout(() => controller.abort(), REMOTE_IMAGE_FETCH_TIMEOUT_MS);
+		try {
+			let response: Response;
+			let target: URL;
+			try {
+				target = new URL(url);
+			} catch {
+				throw fail("invalid URL");
+			}
+			for (let redirects = 0; ; redirects++) {
+				const blockedReason = getBlockedUrlReason(target);
+				if (blockedReason) {
+					throw fail(redirects === 0 ? blockedReason : `redirected to a blocked URL (${blockedReason})`);
+				}
+				try {
+					response = await fetch(target, { signal: controller.signal, redirect: "manual" });
+				} catch (e) {
+					throw fail(controller.signal.aborted ? "timed out" : e instanceof Error ? e.message : String(e));
+				}
+				const location = response.headers.get("Location");
+				if (response.status < 300 || response.status >= 400 || !location) {
+					break;
+				}
+				await response.body?.cancel();
+				if (redirects >= REMOTE_IMAGE_MAX_REDIRECTS) {
+					throw fail(`more than ${REMOTE_IMAGE_MAX_REDIRECTS} redirects`);
+				}
+				try {
+					target = new URL(location, target);
+				} catch {
+					throw fail(`redirected to an invalid URL (${location})`);
+				}
+			}
+			if (!response.ok) {
+				throw fail(`HTTP ${response.status}`);
+			}
+
+			const declaredLength = parseInt(response.headers.get("Content-Length") ?? "", 10);
+			if (declaredLength > REMOTE_IMAGE_MAX_BYTES) {
+				throw fail(`image is larger than ${REMOTE_IMAGE_MAX_BYTES} bytes`);
+			}
+
+			let bytes: Uint8Array | null;
+			try {
+				bytes = await this.readBody(response);
+			} catch (e) {
+				throw fail(controller.signal.aborted ? "timed out" : e instanceof Error ? e.message : String(e));
+			}
+			if (!bytes) {
+				throw fail(`image is larger than ${REMOTE_IMAGE_MAX_BYTES} bytes`);
+			}
+
+			const mimeType = detectImageMimeType(bytes);
+			if (!mimeType) {
+				throw fail("unsupported image format (supported: png, jpeg, gif, webp)");
+			}
+			return { mimeType, data: bytesToBase64(bytes) };
+		} finally {
+			clearTimeout(timeout);
+		}
+	}
+
+	/**
+	 * Reads the response body, stopping as soon as it exceeds the size limit.
+	 * @returns The bytes, or null when the limit is exceeded
+	 */
+	private async readBody(response: Response): Promise<Uint8Array | null> {
+		if (!response.body) {
+			const buffer = await response.arrayBuffer();
+			return buffer.byteLength > REMOTE_IMAGE_MAX_BYTES ? null : new Uint8Array(buffer);
+		}
+
+		const reader = response.body.getReader();
+		const chunks: Uint8Array[] = [];
+		let total = 0;
+		for (;;) {
+			const { done, value } = await reader.read();
+			if (done) break;
+			total += value.length;
+			if (total > REMOTE_IMAGE_MAX_BYTES) {
+				await reader.cancel();
+				return null;
+			}
+			chunks.push(value);
+		}
+
+		const bytes = new Uint8Array(total);
+		let offset = 0;
+		for (const chunk of chunks) {
+			bytes.set(chunk, offset);
+			offset += chunk.length;
+		}
+		return bytes;
+	}
+
+	private async hashUrl(url: string): Promise<string> {
+		const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(url));
+		return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join("");
+	}
+}
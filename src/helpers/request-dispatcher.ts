@@ -0,0 +1,471 @@
+import {
+	Env,
+	ChatMessage,
+	ClientStatus,
+	StreamChunk,
+	CompletionResult,
+	GeminiRequestOptions,
+	PoolAvailability
+} from "../types";
+import { GeminiApiClient } from "../gemini-client";
+import {
+	initializeClientPool,
+	acquireClient,
+	releaseClient,
+	getApiKeyClient,
+	getNextClient,
+	getClientCount,
+	getClientId,
+	getClientStatuses
+} from "../client-pool";
+import KeyManager from "../key-manager";
+import KeyRotator from "../key-rotator";
+import { AutoModelSwitchingHelper } from "./auto-model-switching";
+import { CredentialSelector } from "./selection-strategy";
+import { SessionAffinityHelper } from "./session-affinity";
+import { RemoteImageHelper } from "./remote-image";
+import { getRotationCoordinator } from "./rotation-coordinator";
+
+type FallbackOptions = Pick<GeminiRequestOptions, "allowFallback" | "tenant">;
+
+// The KeyRotator only moves to the next model once every key is exhausted for the current one
+const KEYS_EXHAUSTED_REASON = "keys_exhausted";
+
+// Shared by every request of the isolate, so key cooldowns and selection state aren't rebuilt each time.
+// Rebuilt when the keys or their selection config change.
+let cachedKeyManager: { config: string; keyManager: KeyManager } | null = null;
+
+/**
+ * Routes a single request either through the raw-key KeyRotator (when GEMINI_KEYS or
+ * GEMINI_KEYS_FILE is configured) or through the next client of the OAuth pool.
+ * Shared by every API surface so they all get the same rotation and retry behaviour.
+ */
+export class RequestDispatcher {
+	private client: GeminiApiClient;
+	private keyRotator: KeyRotator | null;
+	private autoSwitchHelper: AutoModelSwitchingHelper;
+	private session: SessionAffinityHelper | null;
+	private remoteImages: RemoteImageHelper; // Per request, so key retries and re-asks reuse fetched images
+	private env: Env;
+	private leased = true; // Whether the pool client is acquired in the rotation coordinator
+	private activeCalls = 0;
+	private leasing: Promise<void> | null = null; // Shared by calls that start while the client is acquired again
+
+	private constructor(
+		client: GeminiApiClient,
+		keyRotator: KeyRotator | null,
+		env: Env,
+		session: SessionAffinityHelper | null
+	) {
+		this.client = client;
+		this.keyRotator = keyRotator;
+		this.autoSwitchHelper = new AutoModelSwitchingHelper(env);
+		this.session = session;
+		this.remoteImages = new RemoteImageHelper(env);
+		this.env = env;
+	}
+
+	/**
+	 * Initializes the client pool and the optional KeyRotator, then picks the client for this request.
+	 * With a session, the credentials that served its previous turn are preferred while they are available.
+	 * Throws if the pool cannot be initialized or has no valid clients.
+	 */
+	static async create(env: Env, session: SessionAffinityHelper | null = null): Promise<RequestDispatcher> {
+		// Initialize the client pool (it's safe to call this on every request)
+		await initializeClientPool(env);
+		const affinity = session ? await session.load() : null;
+		const keyManager = await this.getKeyManager(env);
+		if (keyManager) {
+			// The KeyRotator acquires the keys it uses; the pool client only carries the request
+			const keyRotator = new KeyRotator(keyManager, { preferredMaskedKey: affinity?.maskedKey });
+			return new RequestDispatcher(getApiKeyClient(), keyRotator, env, session);
+		}
+		return new RequestDispatcher(await acquireClient(env, affinity?.clientId), null, env, session);
+	}
+
+	/**
+	 * Returns the isolate's KeyManager if GEMINI_KEYS or GEMINI_KEYS_FILE is provided, creating it on first use.
+	 */
+	private static async getKeyManager(env: Env): Promise<KeyManager | null> {
+		try {
+			const envKeys = env.GEMINI_KEYS;
+			const keysFile = env.GEMINI_KEYS_FILE;
+			if (!envKeys && !keysFile) {
+				return null;
+			}
+			const config = JSON.stringify([envKeys, keysFile, env.KEY_SELECTION_STRATEGY, env.SELECTION_WEIGHTS]);
+			if (cachedKeyManager?.config === config) {
+				await cachedKeyManager.keyManager.refreshState();
+				return cachedKeyManager.keyManager;
+			}
+
+			const weights = CredentialSelector.parseWeights(env);
+			// Raw keys are weighted by their masked form, e.g. "AIza...x9Yz", to keep them out of the config
+			const keySelector = CredentialSelector.create(
+				env.KEY_SELECTION_STRATEGY,
+				"random",
+				(key) => weights[km.maskKey(key)] ?? 1
+			);
+			const km = new KeyManager({
+				kv: env.GEMINI_CLI_LOADBALANCE,
+				kvKey: "gemini_key_rotator:cooldown_data_v1",
+				selector: keySelector,
+				coordinator: getRotationCoordinator(env) ?? undefined,
+				coordinatorSelection: { strategy: env.KEY_SELECTION_STRATEGY ?? "random", weights }
+			});
+			if (envKeys) {
+				const keys = envKeys
+					.split(",")
+					.map((s) => s.trim())
+					.filter(Boolean);
+				if (keys.length) km.setKeys(keys);
+			}
+			if (keysFile) {
+				// loadKeysFromFile is async and will populate keys; await it to ensure availability
+				await km.loadKeysFromFile(keysFile);
+			}
+			console.log("Initialized KeyManager with", km.getTotalKeysCount(), "keys");
+			cachedKeyManager = { config, keyManager: km };
+			return km;
+		} catch (krErr) {
+			console.error("Failed to initialize KeyRotator:", krErr);
+			// proceed without rotator
+			return null;
+		}
+	}
+
+	/**
+	 * Reports which credentials could serve a request right now, without picking a client, overall and for
+	 * each of the given models. Raw API keys cool down per model, so with the KeyRotator a model is servable
+	 * while a key is available for it; the pool only carries those requests and just needs a client.
+	 * Without it, a valid pool client is needed, whatever the model.
+	 */
+	static async getAvailability(env: Env, models: string[] = []): Promise<PoolAvailability> {
+		let statuses: ClientStatus[] = [];
+		try {
+			await initializeClientPool(env);
+			statuses = getClientStatuses();
+		} catch (err) {
+			console.error("Failed to initialize client pool:", err);
+		}
+		const keyManager = await this.getKeyManager(env);
+
+		const oauthClients = { total: statuses.length, valid: statuses.filter((status) => status.isValid).length };
+		const apiKeys = keyManager
+			? { total: keyManager.getTotalKeysCount(), available: keyManager.getAvailableKeysCount() }
+			: null;
+		const isServable = (model?: string) =>
+			keyManager ? oauthClients.total > 0 && keyManager.getAvailableKeysCount(model) > 0 : oauthClients.valid > 0;
+		return {
+			oauthClients,
+			apiKeys,
+			servable: isServable(),
+			servableModels: Object.fromEntries(models.map((model) => [model, isServable(model)]))
+		};
+	}
+
+	getClient(): GeminiApiClient {
+		return this.client;
+	}
+
+	/**
+	 * Identifies the credential route serving this request, reported as the OpenAI system_fingerprint.
+	 */
+	getSystemFingerprint(): string {
+		return this.keyRotator ? "fp_key_rotator" : "fp_oauth_pool";
+	}
+
+	/**
+	 * Streams StreamChunks for the request, rotating raw API keys when a KeyRotator is configured.
+	 */
+	streamContent(
+		model: string,
+		systemPrompt: string,
+		messages: ChatMessage[],
+		options: GeminiRequestOptions
+	): AsyncGenerator<StreamChunk> {
+		return this.settleStream(() => this.dispatchStream(model, systemPrompt, messages, options), true);
+	}
+
+	/**
+	 * Collects a complete (non-streaming) completion for the request.
+	 */
+	async getCompletion(
+		model: string,
+		systemPrompt: string,
+		messages: ChatMessage[],
+		options: GeminiRequestOptions
+	): Promise<CompletionResult> {
+		const result = await this.settle(() => this.dispatchCompletion(model, systemPrompt, messages, options));
+		await this.rememberSession();
+		return result;
+	}
+
+	// Remote images are fetched once here rather than by each key attempt
+	private async *dispatchStream(
+		model: string,
+		systemPrompt: string,
+		messages: ChatMessage[],
+		options: GeminiRequestOptions
+	): AsyncGenerator<StreamChunk> {
+		const inlined = await this.remoteImages.inlineRemoteImages(messages);
+		const geminiClient = this.client;
+		if (this.keyRotator) {
+			// Use KeyRotator's streaming-aware rotation and delegate actual network calls to the pool client
+			yield* this.keyRotator.streamContent(
+				this.autoSwitchHelper.getModelChain(model, options),
+				systemPrompt,
+				inlined,
+				(apiKey, _model, _systemPrompt, _messages, _options) =>
+					this.reportStreamFallback(
+						model,
+						_model,
+						geminiClient.streamContentWithApiKey(
+							apiKey,
+							_model,
+							_systemPrompt,
+							_messages as ChatMessage[],
+							_options as GeminiRequestOptions
+						)
+					),
+				{ ...options }
+			) as AsyncGenerator<StreamChunk>;
+		} else {
+			yield* geminiClient.streamContent(model, systemPrompt, inlined, options);
+		}
+	}
+
+	private async dispatchCompletion(
+		model: string,
+		systemPrompt: string,
+		messages: ChatMessage[],
+		options: GeminiRequestOptions
+	): Promise<CompletionResult> {
+		const inlined = await this.remoteImages.inlineRemoteImages(messages);
+		const geminiClient = this.client;
+		if (this.keyRotator) {
+			// Use the raw API key path on the Gemini client so KeyRotator can rotate across keys.
+			return this.keyRotator.generateContent(
+				this.autoSwitchHelper.getModelChain(model, options),
+				systemPrompt,
+				inlined,
+				async (apiKey, _model, _systemPrompt, _messages, _options) =>
+					this.reportCompletionFallback(
+						model,
+						_model,
+						await geminiClient.getCompletionWithApiKey(
+							apiKey,
+							_model,
+							_systemPrompt,
+							_messages as ChatMessage[],
+							_options as GeminiRequestOptions
+						)
+					),
+				{ ...options }
+			);
+		}
+		return geminiClient.getCompletion(model, systemPrompt, inlined, options);
+	}
+
+	/**
+	 * Starts a request on a leased pool client and awaits it, then releases the client in the rotation
+	 * coordinator.
+	 */
+	private async settle<T>(request: () => Promise<T>): Promise<T> {
+		await this.lease();
+		const startedAt = Date.now();
+		let latencyMs: number | undefined;
+		try {
+			const result = await request();
+			latencyMs = Date.now() - startedAt;
+			return result;
+		} finally {
+			await this.release(latencyMs);
+		}
+	}
+
+	/**
+	 * Starts a stream on a leased pool client and passes it through; once it has completed, records the
+	 * credentials that served it for the session when rememberSession is set. However the stream ends,
+	 * the pool client is released.
+	 */
+	private async *settleStream<T>(stream: () => AsyncGenerator<T>, rememberSession = false): AsyncGenerator<T> {
+		await this.lease();
+		const startedAt = Date.now();
+		let firstChunkMs: number | undefined;
+		let latencyMs: number | undefined;
+		try {
+			for await (const chunk of stream()) {
+				firstChunkMs ??= Date.now() - startedAt;
+				yield chunk;
+			}
+			latencyMs = firstChunkMs ?? Date.now() - startedAt;
+			if (rememberSession) {
+				await this.rememberSession();
+			}
+		} finally {
+			await this.release(latencyMs);
+		}
+	}
+
+	/**
+	 * Counts a call as active, acquiring the pool client again when an earlier call already released it,
+	 * e.g. for structured output repairs. The client that served the earlier call is preferred.
+	 * With the KeyRotator no pool client is acquired; it acquires each key itself.
+	 */
+	private async lease(): Promise<void> {
+		this.activeCalls++;
+		if (this.leased || this.keyRotator) {
+			return;
+		}
+		this.leasing ??= acquireClient(this.env, getClientId(this.client))
+			.then((client) => {
+				this.client = client;
+				this.leased = true;
+			})
+			.finally(() => {
+				this.leasing = null;
+			});
+		try {
+			await this.leasing;
+		} catch (error) {
+			this.activeCalls--;
+			throw error;
+		}
+	}
+
+	/**
+	 * Ends an active call, releasing the pool client once no other call of this dispatcher is using it.
+	 */
+	private async release(latencyMs?: number): Promise<void> {
+		this.activeCalls--;
+		if (this.activeCalls > 0 || !this.leased || this.keyRotator) {
+			return;
+		}
+		this.leased = false;
+		await releaseClient(this.env, this.client, latencyMs);
+	}
+
+	/**
+	 * Records the credentials that served this turn for the session's next turn. With the KeyRotator
+	 * that is the raw key, since the pool client only carries the request.
+	 */
+	private async rememberSession(): Promise<void> {
+		if (!this.session) {
+			return;
+		}
+		await this.session.remember(
+			this.keyRotator
+				? { maskedKey: this.keyRotator.getLastUsedMaskedKey() ?? undefined }
+				: { clientId: getClientId(this.client) }
+		);
+	}
+
+	/**
+	 * Prefixes a KeyRotator stream with the switch chunks when it is served by a fallback model.
+	 * They are emitted with the first chunk, so an attempt that fails before producing output reports nothing.
+	 */
+	private async *reportStreamFallback(
+		requestedModel: string,
+		servedModel: string,
+		stream: AsyncGenerator<StreamChunk>
+	): AsyncGenerator<StreamChunk> {
+		let reported = requestedModel === servedModel;
+		for await (const chunk of stream) {
+			if (!reported) {
+				yield* this.autoSwitchHelper.createSwitchChunks(requestedModel, servedModel, KEYS_EXHAUSTED_REASON);
+				reported = true;
+			}
+			yield chunk;
+		}
+	}
+
+	/**
+	 * Marks a KeyRotator completion served by a fallback model, mirroring reportStreamFallback.
+	 */
+	private reportCompletionFallback(
+		requestedModel: string,
+		servedModel: string,
+		result: CompletionResult
+	): CompletionResult {
+		if (requestedModel === servedModel) {
+			return result;
+		}
+		const notice = this.autoSwitchHelper.isSwitchNoticeEnabled()
+			? this.autoSwitchHelper.createSwitchNotification(requestedModel, servedModel, KEYS_EXHAUSTED_REASON)
+			: "";
+		return {
+			...result,
+			content: notice + result.content,
+			modelSwitch: { requestedModel, servedModel, reason: KEYS_EXHAUSTED_REASON }
+		};
+	}
+
+	/**
+	 * Counts prompt tokens upstream. countTokens needs an OAuth token, so raw API keys are never used;
+	 * on failure the next pool clients are tried until each has been tried once.
+	 */
+	async countTokens(model: string, systemPrompt: string, messages: ChatMessage[]): Promise<number> {
+		return this.settle(() => this.countTokensWithRetries(model, systemPrompt, messages));
+	}
+
+	private async countTokensWithRetries(model: string, systemPrompt: string, messages: ChatMessage[]): Promise<number> {
+		const inlined = await this.remoteImages.inlineRemoteImages(messages);
+		// With the KeyRotator the dispatcher's client wasn't picked for its OAuth credentials
+		let client = this.keyRotator ? getNextClient() : this.client;
+		for (let attempt = 1; ; attempt++) {
+			try {
+				return await client.countTokens(model, systemPrompt, inlined);
+			} catch (error: unknown) {
+				// Invalid requests (e.g. an unreachable image URL) fail the same way on every client
+				if (attempt >= getClientCount() || (error as { status?: number }).status === 400) {
+					throw error;
+				}
+				const errorMessage = error instanceof Error ? error.message : String(error);
+				console.warn(`[RequestDispatcher] countTokens failed, trying the next client: ${errorMessage}`);
+				client = getNextClient();
+			}
+		}
+	}
+
+	/**
+	 * Sends a native Gemini generateContent request body, rotating raw API keys when configured.
+	 */
+	async generateNativeContent(
+		model: string,
+		request: Record<string, unknown>,
+		fallback?: FallbackOptions
+	): Promise<Record<string, unknown>> {
+		const keyRotator = this.keyRotator;
+		if (keyRotator) {
+			const models = this.autoSwitchHelper.getModelChain(model, fallback);
+			return this.settle(() =>
+				keyRotator.generateContent(models, "", [], (apiKey, _model) =>
+					this.client.generateNativeContent(_model, request, apiKey)
+				)
+			);
+		}
+		return this.settle(() => this.client.generateNativeContent(model, request, undefined, fallback));
+	}
+
+	/**
+	 * Streams native Gemini GenerateContentResponse chunks, rotating raw API keys when configured.
+	 */
+	streamNativeContent(
+		model: string,
+		request: Record<string, unknown>,
+		fallback?: FallbackOptions
+	): AsyncGenerator<Record<string, unknown>> {
+		const keyRotator = this.keyRotator;
+		if (keyRotator) {
+			const models = this.autoSwitchHelper.getModelChain(model, fallback);
+			return this.settleStream(
+				() =>
+					keyRotator.streamContent(models, "", [], (apiKey, _model) =>
+						this.client.streamNativeContent(_model, request, apiKey)
+					) as AsyncGenerator<Record<string, unknown>>
+			);
+		}
+		return this.settleStream(() => this.client.streamNativeContent(model, request, undefined, fallback));
+	}
+}
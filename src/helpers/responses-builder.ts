@@ -0,0 +1,267 @@
+import {
+	GeminiFunctionCall,
+	ReasoningData,
+	ResponsesFunctionCallItem,
+	ResponsesOutputMessage,
+	ResponsesReasoningItem,
+	ResponsesResponse,
+	StreamChunk,
+	UsageData
+} from "../types";
+import { toOpenAIFinishReason } from "../utils/finish-reason-utils";
+
+export interface ResponsesStreamEvent {
+	type: string;
+	sequence_number: number;
+	[key: string]: unknown;
+}
+
+type OpenItem =
+	| { kind: "message"; outputIndex: number; item: ResponsesOutputMessage }
+	| { kind: "reasoning"; outputIndex: number; item: ResponsesReasoningItem };
+
+/**
+ * Assembles an OpenAI Responses API object from Gemini StreamChunks.
+ * Every mutation returns the typed streaming events that describe it, so the same builder
+ * backs both the SSE transformer and the non-streaming response.
+ */
+export class ResponsesOutputBuilder {
+	private response: ResponsesResponse;
+	private openItem: OpenItem | null = null;
+	private sequenceNumber = 0;
+	private finishReason: string | undefined;
+
+	constructor(model: string, instructions: string | null, metadata: Record<string, string> = {}) {
+		this.response = {
+			id: `resp_${crypto.randomUUID().replace(/-/g, "")}`,
+			object: "response",
+			created_at: Math.floor(Date.now() / 1000),
+			status: "in_progress",
+			incomplete_details: null,
+			model,
+			instructions,
+			output: [],
+			output_text: "",
+			usage: null,
+			metadata
+		};
+	}
+
+	getResponse(): ResponsesResponse {
+		return this.response;
+	}
+
+	/**
+	 * Events announcing the response before any output is produced.
+	 */
+	start(): ResponsesStreamEvent[] {
+		return [
+			this.event("response.created", { response: this.response }),
+			this.event("response.in_progress", { response: this.response })
+		];
+	}
+
+	/**
+	 * Applies a single Gemini chunk to the response.
+	 */
+	push(chunk: StreamChunk): ResponsesStreamEvent[] {
+		if ((chunk.type === "text" || chunk.type === "thinking_content") && typeof chunk.data === "string") {
+			return chunk.data ? this.appendText(chunk.data) : [];
+		}
+		if (chunk.type === "real_thinking" && typeof chunk.data === "string") {
+			return chunk.data ? this.appendReasoning(chunk.data) : [];
+		}
+		if (chunk.type === "reasoning" && typeof chunk.data === "object") {
+			return this.appendReasoning((chunk.data as ReasoningData).reasoning);
+		}
+		if (chunk.type === "tool_code" && typeof chunk.data === "object") {
+			return this.addFunctionCall(chunk.data as GeminiFunctionCall);
+		}
+		if (chunk.type === "finish_reason" && typeof chunk.data === "string") {
+			this.finishReason = chunk.data;
+			return [];
+		}
+		if (chunk.type === "usage" && typeof chunk.data === "object") {
+			const usage = chunk.data as UsageData;
+			this.response.usage = {
+				input_tokens: usage.inputTokens,
+				output_tokens: usage.outputTokens,
+				total_tokens: usage.inputTokens + usage.outputTokens
+			};
+		}
+		return [];
+	}
+
+	/**
+	 * Closes any open output item and marks the response completed, or incomplete when
+	 * Gemini stopped at the token limit or a content filter.
+	 */
+	finish(): ResponsesStreamEvent[] {
+		const events = this.closeOpenItem();
+		const finishReason = toOpenAIFinishReason(this.finishReason, false);
+		if (finishReason === "length" || finishReason === "content_filter") {
+			this.response.status = "incomplete";
+			this.response.incomplete_details = {
+				reason: finishReason === "length" ? "max_output_tokens" : "content_filter"
+			};
+		} else {
+			this.response.status = "completed";
+		}
+		this.response.output_text = this.response.output
+			.filter((item): item is ResponsesOutputMessage => item.type === "message")
+			.map((item) => item.content.map((part) => part.text).join(""))
+			.join("");
+		events.push(this.event(`response.${this.response.status}`, { response: this.response }));
+		return events;
+	}
+
+	private event(type: string, payload: Record<string, unknown>): ResponsesStreamEvent {
+		return { type, sequence_number: this.sequenceNumber++, ...payload };
+	}
+
+	private appendText(text: string): ResponsesStreamEvent[] {
+		const events: ResponsesStreamEvent[] = [];
+		if (this.openItem?.kind !== "message") {
+			events.push(...this.closeOpenItem());
+			const item: ResponsesOutputMessage = {
+				type: "message",
+				id: `msg_${crypto.randomUUID().replace(/-/g, "")}`,
+				status: "in_progress",
+				role: "assistant",
+				content: [{ type: "output_text", text: "", annotations: [] }]
+			};
+			const outputIndex = this.response.output.push(item) - 1;
+			this.openItem = { kind: "message", outputIndex, item };
+			events.push(this.event("response.output_item.added", { output_index: outputIndex, item }));
+			events.push(
+				this.event("response.content_part.added", {
+					item_id: item.id,
+					output_index: outputIndex,
+					content_index: 0,
+					part: { type: "output_text", text: "", annotations: [] }
+				})
+			);
+		}
+
+		const { item, outputIndex } = this.openItem as Extract<OpenItem, { kind: "message" }>;
+		item.content[0].text += text;
+		events.push(
+			this.event("response.output_text.delta", {
+				item_id: item.id,
+				output_index: outputIndex,
+				content_index: 0,
+				delta: text
+			})
+		);
+		return events;
+	}
+
+	private appendReasoning(text: string): ResponsesStreamEvent[] {
+		const events: ResponsesStreamEvent[] = [];
+		if (this.openItem?.kind !== "reasoning") {
+			events.push(...this.closeOpenItem());
+			const item: ResponsesReasoningItem = {
+				type: "reasoning",
+				id: `rs_${crypto.randomUUID().replace(/-/g, "")}`,
+				summary: [{ type: "summary_text", text: "" }]
+			};
+			const outputIndex = this.response.output.push(item) - 1;
+			this.openItem = { kind: "reasoning", outputIndex, item };
+			events.push(this.event("response.output_item.added", { output_index: outputIndex, item }));
+			events.push(
+				this.event("response.reasoning_summary_part.added", {
+					item_id: item.id,
+					output_index: outputIndex,
+					summary_index: 0,
+					part: { type: "summary_text", text: "" }
+				})
+			);
+		}
+
+		const { item, outputIndex } = this.openItem as Extract<OpenItem, { kind: "reasoning" }>;
+		item.summary[0].text += text;
+		events.push(
+			this.event("response.reasoning_summary_text.delta", {
+				item_id: item.id,
+				output_index: outputIndex,
+				summary_index: 0,
+				delta: text
+			})
+		);
+		return events;
+	}
+
+	private addFunctionCall(functionCall: GeminiFunctionCall): ResponsesStreamEvent[] {
+		const events = this.closeOpenItem();
+		const args = JSON.stringify(functionCall.args ?? {});
+		const item: ResponsesFunctionCallItem = {
+			type: "function_call",
+			id: `fc_${crypto.randomUUID().replace(/-/g, "")}`,
+			call_id: `call_${crypto.randomUUID()}`,
+			name: functionCall.name,
+			arguments: "",
+			status: "in_progress"
+		};
+		const outputIndex = this.response.output.push(item) - 1;
+		events.push(this.event("response.output_item.added", { output_index: outputIndex, item: { ...item } }));
+
+		// Gemini returns complete function calls, so the arguments arrive as a single delta
+		item.arguments = args;
+		item.status = "completed";
+		events.push(
+			this.event("response.function_call_arguments.delta", { item_id: item.id, output_index: outputIndex, delta: args })
+		);
+		events.push(
+			this.event("response.function_call_arguments.done", {
+				item_id: item.id,
+				output_index: outputIndex,
+				arguments: args
+			})
+		);
+		events.push(this.event("response.output_item.done", { output_index: outputIndex, item }));
+		return events;
+	}
+
+	private closeOpenItem(): ResponsesStreamEvent[] {
+		const open = this.openItem;
+		if (!open) return [];
+		this.openItem = null;
+
+		if (open.kind === "message") {
+			const part = open.item.content[0];
+			open.item.status = "completed";
+			return [
+				this.event("response.output_text.done", {
+					item_id: open.item.id,
+					output_index: open.outputIndex,
+					content_index: 0,
+					text: part.text
+				}),
+				this.event("response.content_part.done", {
+					item_id: open.item.id,
+					output_index: open.outputIndex,
+					content_index: 0,
+					part
+				}),
+				this.event("response.output_item.done", { output_index: open.outputIndex, item: open.item })
+			];
+		}
+
+		const summary = open.item.summary[0];
+		return [
+			this.event("response.reasoning_summary_text.done", {
+				item_id: open.item.id,
+				output_index: open.outputIndex,
+				summary_index: 0,
+				text: summary.text
+			}),
+			this.event("response.reasoning_summary_part.done", {
+				item_id: open.item.id,
+				output_index: open.outputIndex,
+				summary_index: 0,
+				part: summary
+			}),
+			this.event("response.output_item.done", { output_index: open.outputIndex, item: open.item })
+		];
+	}
+}
@@ -0,0 +1,169 @@
+import { CoordinatorAcquireRequest, Env, RotationPool } from "../types";
+import { ROTATION_COORDINATOR_NAME, ROTATION_COORDINATOR_ORIGIN } from "../config";
+import { ROTATION_LEASE_TTL_MS } from "../constants";
+import { CredentialSelector } from "./selection-strategy";
+
+/**
+ * Rotation state shared by every isolate: cooldowns, in-flight counts and the selection strategies'
+ * cursors. Each acquire is atomic, so two isolates never act on different views of the same credential.
+ */
+export interface RotationCoordinator {
+	/**
+	 * Picks a candidate that isn't cooling down and counts it as in flight, or returns null when every
+	 * candidate is cooling down. Pair every acquired id with a release; an acquire that is never released
+	 * stops counting as in flight after ROTATION_LEASE_TTL_MS.
+	 */
+	acquire(request: CoordinatorAcquireRequest): Promise<string | null>;
+
+	/**
+	 * Ends an acquired request. Only successful requests pass a latency.
+	 */
+	release(pool: RotationPool, id: string, latencyMs?: number): Promise<void>;
+
+	/**
+	 * Skips a credential until the given epoch ms, for acquires in the given scope only when one is set.
+	 * An earlier cooldown never shortens a later one.
+	 */
+	setCooldown(pool: RotationPool, id: string, until: number, scope?: string): Promise<void>;
+}
+
+/**
+ * Keeps the rotation state in memory. The Durable Object runs one of these for all isolates; on its own
+ * it stands in for the Durable Object in tests and local development.
+ */
+export class InMemoryRotationCoordinator implements RotationCoordinator {
+	private selectors = new Map<RotationPool, { signature: string; selector: CredentialSelector }>();
+	private cooldowns = new Map<string, number>(); // "<pool>:<id>" or "<pool>:<id>:<scope>" -> epoch ms
+	private leases = new Map<string, number[]>(); // "<pool>:<id>" -> start times of unreleased acquires, oldest first
+
+	async acquire(request: CoordinatorAcquireRequest): Promise<string | null> {
+		const now = Date.now();
+		this.expireLeases(request.pool, now);
+		const available = request.ids.filter(
+			(id) =>
+				(this.getCooldown(request.pool, id) ?? 0) <= now &&
+				(request.scope === undefined || (this.getCooldown(request.pool, id, request.scope) ?? 0) <= now)
+		);
+		if (available.length === 0) {
+			return null;
+		}
+
+		const selector = this.getSelector(request);
+		const id =
+			request.preferredId && available.includes(request.preferredId) ? request.preferredId : selector.select(available);
+		selector.getStats(id).start();
+		const leaseKey = `${request.pool}:${id}`;
+		this.leases.set(leaseKey, [...(this.leases.get(leaseKey) ?? []), now]);
+		return id;
+	}
+
+	async release(pool: RotationPool, id: string, latencyMs?: number): Promise<void> {
+		// Releases are matched to the oldest lease; one that already expired has nothing left to end
+		const leases = this.leases.get(`${pool}:${id}`);
+		if (!leases?.length) {
+			return;
+		}
+		leases.shift();
+		this.selectors.get(pool)?.selector.getStats(id).end(latencyMs);
+	}
+
+	async setCooldown(pool: RotationPool, id: string, until: number, scope?: string): Promise<void> {
+		const key = this.getCooldownKey(pool, id, scope);
+		this.cooldowns.set(key, Math.max(this.cooldowns.get(key) ?? 0, until));
+	}
+
+	getCooldown(pool: RotationPool, id: string, scope?: string): number | undefined {
+		return this.cooldowns.get(this.getCooldownKey(pool, id, scope));
+	}
+
+	private getCooldownKey(pool: RotationPool, id: string, scope?: string): string {
+		return scope === undefined ? `${pool}:${id}` : `${pool}:${id}:${scope}`;
+	}
+
+	// Ends the leases of a pool that were never released, without a latency sample
+	private expireLeases(pool: RotationPool, now: number): void {
+		const prefix = `${pool}:`;
+		for (const [leaseKey, leases] of this.leases) {
+			if (!leaseKey.startsWith(prefix)) continue;
+			const live = leases.filter((startedAt) => now - startedAt < ROTATION_LEASE_TTL_MS);
+			const stats = this.selectors.get(pool)?.selector.getStats(leaseKey.substring(prefix.length));
+			for (let i = live.length; i < leases.length; i++) {
+				stats?.end();
+			}
+			this.leases.set(leaseKey, live);
+		}
+	}
+
+	// Each pool keeps its selector, and its stats, until the strategy or weights change
+	private getSelector(request: CoordinatorAcquireRequest): CredentialSelector {
+		const weights = request.weights ?? {};
+		const signature = `${request.strategy}:${JSON.stringify(weights)}`;
+		const current = this.selectors.get(request.pool);
+		if (current?.signature === signature) {
+			return current.selector;
+		}
+		const selector = CredentialSelector.create(request.strategy, "round_robin", (id) => weights[id] ?? 1);
+		this.selectors.set(request.pool, { signature, selector });
+		return selector;
+	}
+}
+
+/**
+ * Calls the RotationCoordinatorObject Durable Object. Stubs can't be shared between requests in
+ * Workers, so each call gets its own; the coordinator itself is shared by every request of the isolate.
+ */
+export class DurableObjectRotationCoordinator implements RotationCoordinator {
+	private namespace: DurableObjectNamespace;
+	private id: DurableObjectId;
+
+	constructor(namespace: DurableObjectNamespace) {
+		this.namespace = namespace;
+		this.id = namespace.idFromName(ROTATION_COORDINATOR_NAME);
+	}
+
+	async acquire(request: CoordinatorAcquireRequest): Promise<string | null> {
+		const response = await this.call("acquire", request);
+		return ((await response.json()) as { id: string | null }).id;
+	}
+
+	async release(pool: RotationPool, id: string, latencyMs?: number): Promise<void> {
+		await this.call("release", { pool, id, latencyMs });
+	}
+
+	async setCooldown(pool: RotationPool, id: string, until: number, scope?: string): Promise<void> {
+		await this.call("cooldown", { pool, id, until, scope });
+	}
+
+	private async call(method: string, payload: unknown): Promise<Response> {
+		const response = await this.namespace.get(this.id).fetch(`${ROTATION_COORDINATOR_ORIGIN}/${method}`, {
+			method: "POST",
+			headers: { "Content-Type": "application/json" },
+			body: JSON.stringify(payload)
+		});
+		if (!response.ok) {
+			throw Object.assign(new Error(`Rotation coordinator ${method} failed: ${response.status}`), {
+				status: response.status
+			});
+		}
+		return response;
+	}
+}
+
+const coordinators = new WeakMap<DurableObjectNamespace, DurableObjectRotationCoordinator>();
+
+/**
+ * Returns the coordinator when the ROTATION_COORDINATOR binding is configured, or null to keep the
+ * rotation state in the isolate.
+ */
+export function getRotationCoordinator(env: Env): RotationCoordinator | null {
+	const namespace = env.ROTATION_COORDINATOR;
+	if (!namespace) {
+		return null;
+	}
+	let coordinator = coordinators.get(namespace);
+	if (!coordinator) {
+		coordinator = new DurableObjectRotationCoordinator(namespace);
+		coordinators.set(namespace, coordinator);
+	}
+	return coordinator;
+}
@@ -0,0 +1,211 @@
+import { Env, SelectionSnapshot, SelectionStrategyName } from "../types";
+import { LATENCY_EWMA_ALPHA } from "../constants";
+
+/**
+ * Usage of one credential (a pool client or a raw API key), updated by its owner and read by the strategies.
+ */
+export class SelectionStats {
+	readonly id: string;
+	readonly weight: number;
+	inFlight: number = 0;
+	lastUsedAt: number = 0;
+	latencyEwmaMs: number | undefined;
+
+	constructor(id: string, weight: number) {
+		this.id = id;
+		this.weight = weight;
+	}
+
+	/**
+	 * Marks the start of an upstream request.
+	 */
+	start(): void {
+		this.inFlight++;
+		this.lastUsedAt = Date.now();
+	}
+
+	/**
+	 * Marks the end of an upstream request. Only successful requests pass a latency, so fast
+	 * failures such as rate limits don't make a credential look fast.
+	 */
+	end(latencyMs?: number): void {
+		this.inFlight = Math.max(0, this.inFlight - 1);
+		if (latencyMs !== undefined) {
+			this.latencyEwmaMs =
+				this.latencyEwmaMs === undefined
+					? latencyMs
+					: LATENCY_EWMA_ALPHA * latencyMs + (1 - LATENCY_EWMA_ALPHA) * this.latencyEwmaMs;
+		}
+	}
+
+	getSnapshot(): SelectionSnapshot {
+		return { weight: this.weight, inFlight: this.inFlight, latencyEwmaMs: this.latencyEwmaMs };
+	}
+}
+
+/**
+ * Picks the credential for the next request. Candidates are never empty and keep their configured
+ * order, which breaks ties.
+ */
+export interface SelectionStrategy {
+	select(candidates: SelectionStats[]): SelectionStats;
+}
+
+// Returns the first candidate with the lowest score
+function minBy(candidates: SelectionStats[], score: (stats: SelectionStats) => number): SelectionStats {
+	return candidates.reduce((best, stats) => (score(stats) < score(best) ? stats : best));
+}
+
+/**
+ * Rotates through the candidates in order, skipping over ones that aren't available.
+ */
+export class RoundRobinStrategy implements SelectionStrategy {
+	private sequence = 0;
+	private lastSelected = new Map<string, number>();
+
+	select(candidates: SelectionStats[]): SelectionStats {
+		const chosen = minBy(candidates, (stats) => this.lastSelected.get(stats.id) ?? -1);
+		this.lastSelected.set(chosen.id, this.sequence++);
+		return chosen;
+	}
+}
+
+/**
+ * Picks a candidate uniformly at random.
+ */
+export class RandomStrategy implements SelectionStrategy {
+	select(candidates: SelectionStats[]): SelectionStats {
+		return candidates[Math.floor(Math.random() * candidates.length)];
+	}
+}
+
+/**
+ * Picks the candidate whose last request started the longest ago.
+ */
+export class LeastRecentlyUsedStrategy implements SelectionStrategy {
+	select(candidates: SelectionStats[]): SelectionStats {
+		return minBy(candidates, (stats) => stats.lastUsedAt);
+	}
+}
+
+/**
+ * Picks the candidate with the fewest requests waiting for a response, then the least recently used.
+ */
+export class LeastInFlightStrategy implements SelectionStrategy {
+	select(candidates: SelectionStats[]): SelectionStats {
+		const fewest = Math.min(...candidates.map((stats) => stats.inFlight));
+		return minBy(
+			candidates.filter((stats) => stats.inFlight === fewest),
+			(stats) => stats.lastUsedAt
+		);
+	}
+}
+
+/**
+ * Smooth weighted round-robin: over any window a candidate gets a share of the requests proportional
+ * to its weight, without sending them in bursts.
+ */
+export class WeightedStrategy implements SelectionStrategy {
+	private currentWeights = new Map<string, number>();
+
+	select(candidates: SelectionStats[]): SelectionStats {
+		let total = 0;
+		for (const stats of candidates) {
+			const weight = Math.max(stats.weight, 0);
+			total += weight;
+			this.currentWeights.set(stats.id, (this.currentWeights.get(stats.id) ?? 0) + weight);
+		}
+		const chosen = minBy(candidates, (stats) => -(this.currentWeights.get(stats.id) ?? 0));
+		this.currentWeights.set(chosen.id, (this.currentWeights.get(chosen.id) ?? 0) - total);
+		return chosen;
+	}
+}
+
+/**
+ * Picks the candidate with the lowest latency EWMA scaled by its requests in flight, so slow credentials
+ * get less traffic and a fast one isn't piled onto. Candidates without a sample yet are tried first.
+ */
+export class LatencyEwmaStrategy implements SelectionStrategy {
+	select(candidates: SelectionStats[]): SelectionStats {
+		const lowest = Math.min(...candidates.map((stats) => this.score(stats)));
+		return minBy(
+			candidates.filter((stats) => this.score(stats) === lowest),
+			(stats) => stats.lastUsedAt
+		);
+	}
+
+	private score(stats: SelectionStats): number {
+		return (stats.latencyEwmaMs ?? 0) * (stats.inFlight + 1);
+	}
+}
+
+const STRATEGIES: Record<SelectionStrategyName, () => SelectionStrategy> = {
+	round_robin: () => new RoundRobinStrategy(),
+	random: () => new RandomStrategy(),
+	lru: () => new LeastRecentlyUsedStrategy(),
+	least_in_flight: () => new LeastInFlightStrategy(),
+	weighted: () => new WeightedStrategy(),
+	latency_ewma: () => new LatencyEwmaStrategy()
+};
+
+/**
+ * Selects among credentials with a strategy, keeping each credential's SelectionStats across requests.
+ */
+export class CredentialSelector {
+	private strategy: SelectionStrategy;
+	private weightOf: (id: string) => number;
+	private stats = new Map<string, SelectionStats>();
+
+	constructor(strategy: SelectionStrategy, weightOf: (id: string) => number = () => 1) {
+		this.strategy = strategy;
+		this.weightOf = weightOf;
+	}
+
+	/**
+	 * Creates a selector for a strategy name from the config, using the default for unknown names.
+	 */
+	static create(
+		name: string | undefined,
+		defaultName: SelectionStrategyName,
+		weightOf?: (id: string) => number
+	): CredentialSelector {
+		let strategyName = defaultName;
+		if (name && name in STRATEGIES) {
+			strategyName = name as SelectionStrategyName;
+		} else if (name) {
+			console.warn(`Unknown selection strategy '${name}', using '${defaultName}'`);
+		}
+		return new CredentialSelector(STRATEGIES[strategyName](), weightOf);
+	}
+
+	/**
+	 * Parses SELECTION_WEIGHTS, a JSON map of credential id to weight.
+	 */
+	static parseWeights(env: Env): Record<string, number> {
+		if (!env.SELECTION_WEIGHTS) {
+			return {};
+		}
+		try {
+			return JSON.parse(env.SELECTION_WEIGHTS) as Record<string, number>;
+		} catch (e) {
+			console.error("Ignoring invalid SELECTION_WEIGHTS:", e);
+			return {};
+		}
+	}
+
+	getStats(id: string): SelectionStats {
+		let stats = this.stats.get(id);
+		if (!stats) {
+			stats = new SelectionStats(id, this.weightOf(id));
+			this.stats.set(id, stats);
+		}
+		return stats;
+	}
+
+	/**
+	 * Picks one of the ids, which must not be empty.
+	 */
+	select(ids: string[]): string {
+		return this.strategy.select(ids.map((id) => this.getStats(id))).id;
+	}
+}
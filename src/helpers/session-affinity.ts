@@ -0,0 +1,119 @@
+import { ChatMessage, Env, SessionAffinityRecord } from "../types";
+import { SESSION_AFFINITY_KV_PREFIX } from "../config";
+import {
+	SESSION_AFFINITY_MIN_TTL_SECONDS,
+	SESSION_AFFINITY_REFRESH_MS,
+	SESSION_AFFINITY_TTL_SECONDS
+} from "../constants";
+
+// The start of a conversation, which stays the same from one turn to the next
+export interface ConversationPrefix {
+	systemPrompt: string;
+	messages: ChatMessage[];
+}
+
+/**
+ * Helper class for sticky session affinity.
+ * Keeps the turns of a conversation on the credentials that served its previous turn, so Gemini's
+ * implicit prompt cache keeps hitting and per-account issues can be traced to one credential.
+ * A conversation is identified by the X-Session-Id header, then the request's user id, then a hash
+ * of its prefix. Records live in KV under the hashed key and expire after SESSION_AFFINITY_TTL_SECONDS.
+ * The prefix runs up to the first assistant reply, which tells apart conversations that open with the
+ * same prompt; the first turn has no reply yet, so prefix affinity starts from the second turn's record.
+ */
+export class SessionAffinityHelper {
+	private env: Env;
+	private kvKey: string;
+	private record: SessionAffinityRecord | null = null;
+
+	private constructor(env: Env, kvKey: string) {
+		this.env = env;
+		this.kvKey = kvKey;
+	}
+
+	static isEnabled(env: Env): boolean {
+		return env.ENABLE_SESSION_AFFINITY === "true";
+	}
+
+	/**
+	 * Resolves the session of a request. Returns null when affinity is disabled or the request carries
+	 * nothing to identify its conversation, e.g. only a prefix without an assistant reply yet.
+	 * Routes without multi-turn input pass no prefix.
+	 */
+	static async fromRequest(
+		env: Env,
+		sessionId: string | undefined,
+		user: string | undefined,
+		prefix?: ConversationPrefix
+	): Promise<SessionAffinityHelper | null> {
+		if (!this.isEnabled(env)) {
+			return null;
+		}
+
+		let source: string;
+		if (sessionId) {
+			source = `session:${sessionId}`;
+		} else if (user) {
+			source = `user:${user}`;
+		} else {
+			const firstReply = prefix ? prefix.messages.findIndex((message) => message.role === "assistant") : -1;
+			if (!prefix || firstReply === -1) {
+				return null;
+			}
+			source = `prefix:${JSON.stringify([prefix.systemPrompt, ...prefix.messages.slice(0, firstReply + 1)])}`;
+		}
+		// Hashed so user ids and conversation content never end up in KV keys
+		return new SessionAffinityHelper(env, SESSION_AFFINITY_KV_PREFIX + (await this.hash(source)));
+	}
+
+	/**
+	 * Reads the credentials that served the previous turn, or null for a new or expired session.
+	 */
+	async load(): Promise<SessionAffinityRecord | null> {
+		try {
+			const raw = await this.env.GEMINI_CLI_LOADBALANCE.get(this.kvKey);
+			this.record = raw ? (JSON.parse(raw) as SessionAffinityRecord) : null;
+		} catch (kvError) {
+			console.error("[SessionAffinity] Failed to read affinity record:", kvError);
+			this.record = null;
+		}
+		return this.record;
+	}
+
+	/**
+	 * Stores the credentials that served this turn. KV is only written when they changed, e.g. after
+	 * falling back from a cooling-down credential, or when the record's TTL is due for a refresh.
+	 */
+	async remember(credentials: Omit<SessionAffinityRecord, "updatedAt">): Promise<void> {
+		const previous = this.record;
+		if (
+			previous &&
+			previous.clientId === credentials.clientId &&
+			previous.maskedKey === credentials.maskedKey &&
+			Date.now() - previous.updatedAt < SESSION_AFFINITY_REFRESH_MS
+		) {
+			return;
+		}
+
+		const record: SessionAffinityRecord = { ...credentials, updatedAt: Date.now() };
+		try {
+			await this.env.GEMINI_CLI_LOADBALANCE.put(this.kvKey, JSON.stringify(record), {
+				expirationTtl: this.getTtlSeconds()
+			});
+			this.record = record;
+		} catch (kvError) {
+			// The turn was served; the next one just may land on other credentials
+			console.error("[SessionAffinity] Failed to store affinity record:", kvError);
+		}
+	}
+
+	private getTtlSeconds(): number {
+		const ttl = parseInt(this.env.SESSION_AFFINITY_TTL_SECONDS || "", 10);
+		return Math.max(ttl > 0 ? ttl : SESSION_AFFINITY_TTL_SECONDS, SESSION_AFFINITY_MIN_TTL_SECONDS);
+	}
+
+	private static async hash(value: string): Promise<string> {
+		const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(value));
+		return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join("");
+	}
+}
@@ -0,0 +1,109 @@
+import { ChatMessage, CompletionResult, Env, GeminiRequestOptions, JsonSchemaFormat, UsageData } from "../types";
+import { DEFAULT_STRUCTURED_OUTPUT_MAX_REPAIRS } from "../constants";
+import { validateAgainstSchema } from "../utils/schema-utils";
+import { RequestDispatcher } from "./request-dispatcher";
+
+/**
+ * Helper class for json_schema structured outputs.
+ * Validates completed outputs against the requested schema and, in strict mode, re-asks the model
+ * with the validation errors a bounded number of times. Streamed outputs are not validated because
+ * they have already been sent to the client.
+ */
+export class StructuredOutputHelper {
+	/**
+	 * Returns the json_schema format of the request, if any.
+	 */
+	static getJsonSchemaFormat(options: GeminiRequestOptions): JsonSchemaFormat | undefined {
+		return options.response_format?.type === "json_schema" ? options.response_format.json_schema : undefined;
+	}
+
+	/**
+	 * Reads the repair budget from STRUCTURED_OUTPUT_MAX_REPAIRS, falling back to the default.
+	 */
+	static getMaxRepairs(env: Env): number {
+		const configured = parseInt(env.STRUCTURED_OUTPUT_MAX_REPAIRS ?? "", 10);
+		return Number.isNaN(configured) || configured < 0 ? DEFAULT_STRUCTURED_OUTPUT_MAX_REPAIRS : configured;
+	}
+
+	/**
+	 * Parses the model output and validates it against the schema.
+	 * @returns The validation errors; empty when the output is valid
+	 */
+	static validateOutput(content: string, schema: Record<string, unknown>): string[] {
+		let value: unknown;
+		try {
+			value = JSON.parse(content);
+		} catch (e) {
+			return [`output is not valid JSON: ${e instanceof Error ? e.message : String(e)}`];
+		}
+		return validateAgainstSchema(value, schema);
+	}
+
+	/**
+	 * Gets a non-streaming completion whose output matches the requested json_schema.
+	 * Non-strict schemas are only validated (mismatches are logged); strict schemas are re-asked up to
+	 * maxRepairs times and throw if the output still doesn't match. That error has status 502, since the
+	 * upstream model produced the invalid output, and carries the last validation errors.
+	 */
+	static async getCompletion(
+		dispatcher: RequestDispatcher,
+		model: string,
+		systemPrompt: string,
+		messages: ChatMessage[],
+		options: GeminiRequestOptions,
+		maxRepairs: number
+	): Promise<CompletionResult> {
+		let completion = await dispatcher.getCompletion(model, systemPrompt, messages, options);
+		const format = this.getJsonSchemaFormat(options);
+		// Tool calls and multi-candidate responses are returned as-is
+		if (!format?.schema || completion.tool_calls || completion.candidates) {
+			return completion;
+		}
+
+		const usage: UsageData = { inputTokens: 0, outputTokens: 0 };
+		const addUsage = (result: CompletionResult) => {
+			usage.inputTokens += result.usage?.inputTokens ?? 0;
+			usage.outputTokens += result.usage?.outputTokens ?? 0;
+		};
+		addUsage(completion);
+
+		let conversation = messages;
+		for (let attempt = 0; ; attempt++) {
+			const errors = this.validateOutput(completion.content, format.schema);
+			if (errors.length === 0) {
+				return { ...completion, usage };
+			}
+			if (!format.strict) {
+				console.warn(`[StructuredOutput] Output does not match schema '${format.name}':`, errors);
+				return { ...completion, usage };
+			}
+			if (attempt >= maxRepairs) {
+				throw Object.assign(
+					new Error(
+						`Model output did not match json_schema '${format.name}' after ${maxRepairs} repair attempt(s): ${errors.join("; ")}`
+					),
+					{ status: 502, validationErrors: errors }
+				);
+			}
+
+			console.log(
+				`[StructuredOutput] Output does not match schema '${format.name}', re-asking (attempt ${attempt + 1}/${maxRepairs})`
+			);
+			conversation = [
+				...conversation,
+				{ role: "assistant", content: completion.content },
+				{ role: "user", content: this.buildRepairPrompt(errors) }
+			];
+			completion = await dispatcher.getCompletion(model, systemPrompt, conversation, options);
+			addUsage(completion);
+		}
+	}
+
+	private static buildRepairPrompt(errors: string[]): string {
+		return (
+			"Your previous response does not match the required JSON schema:\n" +
+			errors.map((error) => `- ${error}`).join("\n") +
+			"\n\nReply again with only the corrected JSON."
+		);
+	}
+}
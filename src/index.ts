@@ -1,9 +1,15 @@
 import { Hono } from "hono";
 import { Env } from "./types";
 import { OpenAIRoute } from "./routes/openai";
+import { CompletionsRoute } from "./routes/completions";
+import { AnthropicRoute } from "./routes/anthropic";
+import { ResponsesRoute } from "./routes/responses";
+import { GeminiRoute } from "./routes/gemini";
+import { OllamaRoute } from "./routes/ollama";
 import { DebugRoute } from "./routes/debug";
 import { openAIApiKeyAuth } from "./middlewares/auth";
 import { loggingMiddleware } from "./middlewares/logging";
+import { modelRegistryMiddleware } from "./middlewares/model-registry";
 
 /**
  * Gemini CLI OpenAI Worker
@@ -13,6 +19,11 @@ import { loggingMiddleware } from "./middlewares/logging";
  *
  * Features:
  * - OpenAI-compatible chat completions and model listing
+ * - Legacy OpenAI text completions
+ * - OpenAI Responses API
+ * - Anthropic-compatible Messages API
+ * - Native Gemini API passthrough (v1beta generateContent / streamGenerateContent)
+ * - Ollama-compatible API (/api/chat, /api/generate, /api/tags)
  * - OAuth2 authentication with token caching via Cloudflare KV
  * - Support for multiple Gemini models (2.5 Pro, 2.0 Flash, 1.5 Pro, etc.)
  * - Streaming responses compatible with OpenAI SDK
@@ -30,7 +41,7 @@ app.use("*", async (c, next) => {
 	// Set CORS headers
 	c.header("Access-Control-Allow-Origin", "*");
 	c.header("Access-Control-Allow-Methods", "GET, POST, OPTIONS");
-	c.header("Access-Control-Allow-Headers", "Content-Type, Authorization");
+	c.header("Access-Control-Allow-Headers", "Content-Type, Authorization, x-api-key, anthropic-version, x-goog-api-key");
 
 	// Handle preflight requests
 	if (c.req.method === "OPTIONS") {
@@ -41,11 +52,21 @@ app.use("*", async (c, next) => {
 	await next();
 });
 
-// Apply OpenAI API key authentication middleware to all /v1 routes
+// Apply OpenAI API key authentication middleware to all /v1, /v1beta and /api routes
 app.use("/v1/*", openAIApiKeyAuth);
+app.use("/v1beta/*", openAIApiKeyAuth);
+app.use("/api/*", openAIApiKeyAuth);
+
+// Load configured models and aliases before any route resolves a model
+app.use("*", modelRegistryMiddleware);
 
 // Setup route handlers
 app.route("/v1", OpenAIRoute);
+app.route("/v1", CompletionsRoute);
+app.route("/v1", ResponsesRoute);
+app.route("/v1", AnthropicRoute);
+app.route("/v1beta", GeminiRoute);
+app.route("/api", OllamaRoute);
 app.route("/v1/debug", DebugRoute);
 
 // Add individual debug routes to main app for backward compatibility
@@ -65,7 +86,18 @@ app.get("/", (c) => {
 		},
 		endpoints: {
 			chat_completions: "/v1/chat/completions",
+			count_tokens: "/v1/chat/completions/count_tokens",
+			completions: "/v1/completions",
+			responses: "/v1/responses",
+			messages: "/v1/messages",
 			models: "/v1/models",
+			model: "/v1/models/{model}",
+			gemini_native: "/v1beta/models/{model}:generateContent",
+			ollama: {
+				chat: "/api/chat",
+				generate: "/api/generate",
+				tags: "/api/tags"
+			},
 			debug: {
 				cache: "/v1/debug/cache",
 				token_test: "/v1/token-test",
@@ -81,4 +113,7 @@ app.get("/health", (c) => {
 	return c.json({ status: "ok", timestamp: new Date().toISOString() });
 });
 
+// Durable Object classes must be exported from the main module to be bound in wrangler.toml
+export { RotationCoordinatorObject } from "./rotation-coordinator-object";
+
 export default app;
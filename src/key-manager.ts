@@ -1,11 +1,17 @@
+import { CredentialSelector, SelectionStats } from "./helpers/selection-strategy";
+import { RotationCoordinator } from "./helpers/rotation-coordinator";
+import { CoordinatorSelection } from "./types";
+import { KEY_STATE_REFRESH_MS } from "./constants";
+
 /**
  * Worker-compatible KeyManager (KV-first).
  * Keeps an in-memory map of key exhaustion timestamps and persists to Cloudflare KV when available.
  */
 
 export interface KeyExhaustionRecord {
-  exhaustedUntil?: number; // epoch ms when key becomes available again
+  exhaustedUntil?: number; // epoch ms when key becomes available again for every model
   lastExhaustedModel?: string;
+  modelExhaustedUntil?: Record<string, number>; // model -> epoch ms; quota is per model, so fallback models stay usable
 }
 
 export interface KeyManagerOptions {
@@ -13,6 +19,9 @@ export interface KeyManagerOptions {
   tierCooldownSeconds?: number; // default cooldown for exhausted keys
   kv?: KVNamespace; // optional Cloudflare KVNamespace
   kvKey?: string; // optional key name in KV
+  selector?: CredentialSelector; // optional key selection strategy (default: uniform random)
+  coordinator?: RotationCoordinator; // optional rotation state shared across isolates, keyed by masked key
+  coordinatorSelection?: CoordinatorSelection; // strategy the coordinator runs for keys (default: random)
 }
 
 export class KeyManager {
@@ -21,22 +30,40 @@ export class KeyManager {
   private tierCooldownMs: number;
   private kv?: KVNamespace;
   private kvKey: string;
+  private selector?: CredentialSelector;
+  private coordinator?: RotationCoordinator;
+  private coordinatorSelection: CoordinatorSelection;
+  private stateLoadedAt = 0;
 
   constructor(options: KeyManagerOptions = {}) {
     this.tierCooldownMs = (options.tierCooldownSeconds ?? 3600) * 1000; // default 1 hour
     this.kv = options.kv;
     this.kvKey = options.kvKey ?? "gemini_key_rotator:cooldown_data_v1";
+    this.selector = options.selector;
+    this.coordinator = options.coordinator;
+    this.coordinatorSelection = options.coordinatorSelection ?? { strategy: "random" };
 
     if (options.keys && options.keys.length > 0) {
       this.setKeys(options.keys);
     }
 
     // Best-effort load persisted KV state
+    this.stateLoadedAt = Date.now();
     this.loadState().catch(() => {
       /* ignore load errors */
     });
   }
 
+  /**
+   * Reloads the state persisted in KV, e.g. cooldowns found by other isolates, when it is older than
+   * KEY_STATE_REFRESH_MS. Cheap to call on every request to a long-lived KeyManager.
+   */
+  async refreshState(): Promise<void> {
+    if (Date.now() - this.stateLoadedAt < KEY_STATE_REFRESH_MS) return;
+    this.stateLoadedAt = Date.now();
+    await this.loadState();
+  }
+
   setKeys(keys: string[]): void {
     this.keys = Array.from(new Set(keys));
     for (const k of this.keys) {
@@ -100,55 +127,105 @@ export class KeyManager {
     }
   }
 
-  getNextAvailableKey(): string | null {
-    const now = Date.now();
-    const available = this.keys.filter((k) => {
-      const rec = this.keyStatus[k];
-      if (!rec) return true;
-      if (!rec.exhaustedUntil) return true;
-      return rec.exhaustedUntil <= now;
-    });
+  /**
+   * Picks an available key with the configured selection strategy, skipping keys in exclude.
+   * The key matching preferredMaskedKey (session affinity) is returned while it is available.
+   */
+  getNextAvailableKey(exclude?: Set<string>, preferredMaskedKey?: string, model?: string): string | null {
+    const available = this.getAvailableKeys(model).filter((k) => !exclude?.has(k));
 
     if (available.length === 0) return null;
+    const preferred = preferredMaskedKey ? available.find((k) => this.maskKey(k) === preferredMaskedKey) : undefined;
+    if (preferred) return preferred;
+    if (this.selector) return this.selector.select(available);
     const idx = Math.floor(Math.random() * available.length);
     return available[idx];
   }
 
-  getAvailableKeys(): string[] {
-    const now = Date.now();
-    return this.keys.filter((k) => {
-      const rec = this.keyStatus[k];
-      if (!rec) return true;
-      if (!rec.exhaustedUntil) return true;
-      return rec.exhaustedUntil <= now;
-    });
+  // Usage stats updated by acquireKey/releaseKey for the selection strategy
+  getSelectionStats(key: string): SelectionStats | undefined {
+    return this.selector?.getStats(key);
+  }
+
+  /**
+   * Picks a key like getNextAvailableKey and counts it as in flight until releaseKey.
+   * With a coordinator the pick also skips keys another isolate found exhausted; if the
+   * coordinator can't be reached the key is picked locally.
+   */
+  async acquireKey(exclude?: Set<string>, preferredMaskedKey?: string, model?: string): Promise<string | null> {
+    let key: string | null = null;
+    if (this.coordinator) {
+      const available = this.getAvailableKeys(model).filter((k) => !exclude?.has(k));
+      if (available.length === 0) return null;
+      try {
+        const id = await this.coordinator.acquire({
+          pool: "keys",
+          ids: available.map((k) => this.maskKey(k)),
+          preferredId: preferredMaskedKey,
+          scope: model,
+          ...this.coordinatorSelection
+        });
+        if (!id) return null;
+        key = available.find((k) => this.maskKey(k) === id) ?? null;
+      } catch (err) {
+        console.error("KeyManager coordinator acquire error, selecting locally:", err);
+        key = this.getNextAvailableKey(exclude, preferredMaskedKey, model);
+      }
+    } else {
+      key = this.getNextAvailableKey(exclude, preferredMaskedKey, model);
+    }
+    if (key) this.getSelectionStats(key)?.start();
+    return key;
+  }
+
+  // Ends a request started with acquireKey; only successful requests pass a latency
+  async releaseKey(key: string, latencyMs?: number): Promise<void> {
+    this.getSelectionStats(key)?.end(latencyMs);
+    if (!this.coordinator) return;
+    try {
+      await this.coordinator.release("keys", this.maskKey(key), latencyMs);
+    } catch (err) {
+      console.error("KeyManager coordinator release error:", err);
+    }
+  }
+
+  // Keys usable for model, or for every model when it is omitted
+  getAvailableKeys(model?: string): string[] {
+    return this.keys.filter((k) => this.isKeyAvailable(k, model));
   }
 
+  /**
+   * Puts a key on cooldown for one model, or for every model when model is omitted.
+   */
   async markKeyExhausted(key: string, model?: string, cooldownSeconds?: number): Promise<void> {
     if (!this.keys.includes(key)) this.keys.push(key);
     const ms = (cooldownSeconds ?? Math.round(this.tierCooldownMs / 1000)) * 1000;
     const until = Date.now() + ms;
-    this.keyStatus[key] = {
-      exhaustedUntil: until,
-      lastExhaustedModel: model
-    };
+    const rec = this.keyStatus[key] ?? {};
+    this.keyStatus[key] = model
+      ? { ...rec, lastExhaustedModel: model, modelExhaustedUntil: { ...rec.modelExhaustedUntil, [model]: until } }
+      : { ...rec, exhaustedUntil: until };
     await this.saveState();
+    if (this.coordinator) {
+      try {
+        await this.coordinator.setCooldown("keys", this.maskKey(key), until, model);
+      } catch (err) {
+        console.error("KeyManager coordinator cooldown error:", err);
+      }
+    }
   }
 
-  isKeyAvailable(key: string): boolean {
+  isKeyAvailable(key: string, model?: string): boolean {
     const rec = this.keyStatus[key];
     if (!rec) return true;
-    if (!rec.exhaustedUntil) return true;
-    return rec.exhaustedUntil <= Date.now();
+    const now = Date.now();
+    if (rec.exhaustedUntil && rec.exhaustedUntil > now) return false;
+    const modelUntil = model ? rec.modelExhaustedUntil?.[model] : undefined;
+    return !modelUntil || modelUntil <= now;
   }
 
-  getAvailableKeysCount(): number {
-    const now = Date.now();
-    return this.keys.reduce((acc, k) => {
-      const rec = this.keyStatus[k];
-      if (!rec || !rec.exhaustedUntil || rec.exhaustedUntil <= now) return acc + 1;
-      return acc;
-    }, 0);
+  getAvailableKeysCount(model?: string): number {
+    return this.getAvailableKeys(model).length;
   }
 
   getTotalKeysCount(): number {
@@ -189,7 +266,7 @@ export class KeyManager {
       }
       if (parsed.keyStatus) {
         for (const [k, v] of Object.entries(parsed.keyStatus)) {
-          this.keyStatus[k] = v as KeyExhaustionRecord;
+          this.keyStatus[k] = this.mergeRecords(this.keyStatus[k], v as KeyExhaustionRecord);
         }
       }
     } catch (err) {
@@ -198,6 +275,21 @@ export class KeyManager {
     }
   }
 
+  // Combines a local record with a persisted one, keeping the later cooldown of each
+  private mergeRecords(local: KeyExhaustionRecord | undefined, stored: KeyExhaustionRecord): KeyExhaustionRecord {
+    if (!local) return stored;
+    const later = (a?: number, b?: number) => (a === undefined || b === undefined ? a ?? b : Math.max(a, b));
+    const modelExhaustedUntil = { ...stored.modelExhaustedUntil };
+    for (const [model, until] of Object.entries(local.modelExhaustedUntil ?? {})) {
+      modelExhaustedUntil[model] = later(until, modelExhaustedUntil[model]) as number;
+    }
+    return {
+      exhaustedUntil: later(local.exhaustedUntil, stored.exhaustedUntil),
+      lastExhaustedModel: local.lastExhaustedModel ?? stored.lastExhaustedModel,
+      modelExhaustedUntil
+    };
+  }
+
   getStatusSnapshot() {
     const now = Date.now();
     const details = this.keys.map((k) => {
@@ -207,7 +299,8 @@ export class KeyManager {
         key: this.maskKey(k),
         available,
         exhaustedUntil: r.exhaustedUntil,
-        lastExhaustedModel: r.lastExhaustedModel
+        lastExhaustedModel: r.lastExhaustedModel,
+        modelExhaustedUntil: r.modelExhaustedUntil
       };
     });
     return {
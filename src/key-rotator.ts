@@ -11,30 +11,32 @@ export type ProviderCallResult = {
   tool_calls?: unknown[] | undefined;
 };
 
-export type ProviderCall = (
+export type ProviderCall<T = ProviderCallResult> = (
   apiKey: string,
   model: string,
   systemPrompt: string,
   messages: unknown[],
   options?: Record<string, unknown>
-) => Promise<ProviderCallResult>;
+) => Promise<T>;
 
 export interface KeyRotatorOptions {
   maxRetriesPerKeyMultiplier?: number; // default 2
   perKeyCooldownSeconds?: number;
+  preferredMaskedKey?: string; // key tried first while available, e.g. the one that served the session's last turn
 }
 
-const MODEL_TIERS = ["gemini-2.5-pro", "gemini-2.5-flash"];
-
 export class KeyRotator {
   private keyManager: KeyManager;
   private maxRetriesPerKeyMultiplier: number;
   private perKeyCooldownSeconds?: number;
+  private preferredMaskedKey?: string;
+  private lastUsedKey: string | null = null;
 
   constructor(keyManager: KeyManager, options: KeyRotatorOptions = {}) {
     this.keyManager = keyManager;
     this.maxRetriesPerKeyMultiplier = options.maxRetriesPerKeyMultiplier ?? 2;
     this.perKeyCooldownSeconds = options.perKeyCooldownSeconds;
+    this.preferredMaskedKey = options.preferredMaskedKey;
   }
 
   private async wait(ms: number): Promise<void> {
@@ -52,27 +54,28 @@ export class KeyRotator {
     return false;
   }
 
-  async generateContent(
-    model: string,
+  /**
+   * Tries each available key on the first model of the chain, then moves on to the next
+   * model once every key is exhausted for it. The chain comes from AutoModelSwitchingHelper.
+   */
+  async generateContent<T = ProviderCallResult>(
+    models: string[],
     systemPrompt: string,
     messages: unknown[],
-    providerCall: ProviderCall,
+    providerCall: ProviderCall<T>,
     options?: GenerateOptions
-  ): Promise<ProviderCallResult> {
-    const startTier = MODEL_TIERS.indexOf(model) !== -1 ? MODEL_TIERS.indexOf(model) : 0;
-
-    // Iterate models from preferred (startTier) to fallback models.
-    for (let i = startTier; i < MODEL_TIERS.length; i++) {
-      const currentModel = MODEL_TIERS[i];
+  ): Promise<T> {
+    // Iterate models from the requested one to its fallback models.
+    for (const currentModel of models) {
       // Snapshot available keys for this attempt; KeyManager manages exhaustion state.
-      const availableKeys = this.keyManager.getAvailableKeys();
+      const availableKeys = this.keyManager.getAvailableKeys(currentModel);
       if (!availableKeys || availableKeys.length === 0) continue;
 
       const triedKeys = new Set<string>();
 
       // Try each available key once for the current model before falling back to next model
       for (let k = 0; k < availableKeys.length; k++) {
-        const key = this.keyManager.getNextAvailableKey();
+        const key = await this.keyManager.acquireKey(triedKeys, this.preferredMaskedKey, currentModel);
         if (!key || triedKeys.has(key)) {
           // If we've tried all known available keys, break
           if (triedKeys.size >= availableKeys.length) break;
@@ -80,12 +83,16 @@ export class KeyRotator {
         }
 
         triedKeys.add(key);
+        const startedAt = Date.now();
 
         try {
           console.log(`Attempting to use key ${this.keyManager.maskKey(key)} for model ${currentModel}`);
           const result = await providerCall(key, currentModel, systemPrompt, messages, options);
+          await this.keyManager.releaseKey(key, Date.now() - startedAt);
+          this.lastUsedKey = key;
           return result;
         } catch (err) {
+          await this.keyManager.releaseKey(key);
           // Normalize possible status from common error shapes and fallback to message parsing
           const e = err as { status?: unknown; response?: { status?: unknown }; statusCode?: unknown; code?: unknown; message?: unknown; toString?: () => string };
           const status = (e && (e.status || (e.response && e.response.status) || e.statusCode || e.code)) || (e && /524/.test(String((e && (e.message || e.toString?.())) || '')) ? 524 : undefined);
@@ -114,7 +121,7 @@ export class KeyRotator {
   }
 
   async *streamContent(
-    model: string,
+    models: string[],
     systemPrompt: string,
     messages: unknown[],
     providerStream: (
@@ -126,31 +133,38 @@ export class KeyRotator {
     ) => AsyncGenerator<unknown>,
     options?: GenerateOptions
   ): AsyncGenerator<unknown> {
-    const startTier = MODEL_TIERS.indexOf(model) !== -1 ? MODEL_TIERS.indexOf(model) : 0;
-
-  for (let i = startTier; i < MODEL_TIERS.length; i++) {
-    const currentModel = MODEL_TIERS[i];
-    const availableKeys = this.keyManager.getAvailableKeys();
+  for (const currentModel of models) {
+    const availableKeys = this.keyManager.getAvailableKeys(currentModel);
     if (!availableKeys || availableKeys.length === 0) continue;
 
     const triedKeys = new Set<string>();
 
     for (let k = 0; k < availableKeys.length; k++) {
-      const key = this.keyManager.getNextAvailableKey();
+      const key = await this.keyManager.acquireKey(triedKeys, this.preferredMaskedKey, currentModel);
       if (!key || triedKeys.has(key)) {
         if (triedKeys.size >= availableKeys.length) break;
         continue;
       }
 
       triedKeys.add(key);
+      // The key counts as in flight until its first chunk, whose latency feeds the selection stats
+      const startedAt = Date.now();
+      let waiting = true;
 
       try {
         console.log(`Attempting to use key ${this.keyManager.maskKey(key)} for model ${currentModel} (stream)`);
         for await (const chunk of providerStream(key, currentModel, systemPrompt, messages, options)) {
+          if (waiting) {
+            waiting = false;
+            await this.keyManager.releaseKey(key, Date.now() - startedAt);
+          }
           yield chunk;
         }
+        if (waiting) await this.keyManager.releaseKey(key, Date.now() - startedAt);
+        this.lastUsedKey = key;
         return;
       } catch (err) {
+        if (waiting) await this.keyManager.releaseKey(key);
         // Normalize status and check for upstream timeout (524)
         const e = err as { status?: unknown; response?: { status?: unknown }; statusCode?: unknown; code?: unknown; message?: unknown; toString?: () => string };
         const status = (e && (e.status || (e.response && e.response.status) || e.statusCode || e.code)) || (e && /524/.test(String((e && (e.message || e.toString?.())) || '')) ? 524 : undefined);
@@ -176,6 +190,11 @@ export class KeyRotator {
     throw new Error("No available API keys or all attempts failed (stream)");
   }
 
+  // The key that served the last successful call, masked as in the logs
+  getLastUsedMaskedKey(): string | null {
+    return this.lastUsedKey ? this.keyManager.maskKey(this.lastUsedKey) : null;
+  }
+
   getStatus(): ReturnType<KeyManager["getStatusSnapshot"]> {
     return this.keyManager.getStatusSnapshot();
   }
@@ -4,6 +4,7 @@ import { Env } from "../types";
 /**
  * Middleware to enforce OpenAI-style API key authentication if OPENAI_API_KEY is set in the environment.
  * Checks for 'Authorization: Bearer <key>' header on protected routes.
+ * Anthropic and Gemini SDK clients may send the same key via 'x-api-key', 'x-goog-api-key' or '?key=' instead.
  */
 export const openAIApiKeyAuth: MiddlewareHandler<{ Bindings: Env }> = async (c, next) => {
 	// Skip authentication for public endpoints
@@ -16,6 +17,25 @@ export const openAIApiKeyAuth: MiddlewareHandler<{ Bindings: Env }> = async (c,
 	// If OPENAI_API_KEY is set in environment, require authentication
 	if (c.env.OPENAI_API_KEY) {
 		const authHeader = c.req.header("Authorization");
+		// Anthropic and Google GenAI SDK clients send the key in their own header or query parameter
+		const alternateKey = c.req.header("x-api-key") || c.req.header("x-goog-api-key") || c.req.query("key");
+
+		if (!authHeader && alternateKey) {
+			if (alternateKey !== c.env.OPENAI_API_KEY) {
+				return c.json(
+					{
+						error: {
+							message: "Invalid API key",
+							type: "authentication_error",
+							code: "invalid_api_key"
+						}
+					},
+					401
+				);
+			}
+			await next();
+			return;
+		}
 
 		if (!authHeader) {
 			return c.json(
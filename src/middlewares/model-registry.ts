@@ -0,0 +1,12 @@
+import { MiddlewareHandler } from "hono";
+import { Env } from "../types";
+import { loadModelRegistry } from "../models";
+
+/**
+ * Middleware that refreshes the model registry from MODEL_REGISTRY and KV before routes look up models.
+ * The registry is cached between requests, so most requests don't touch KV.
+ */
+export const modelRegistryMiddleware: MiddlewareHandler<{ Bindings: Env }> = async (c, next) => {
+	await loadModelRegistry(c.env);
+	await next();
+};
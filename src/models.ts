@@ -1,41 +1,158 @@
-import { ModelInfo } from "./types";
+import { Env, ModelInfo, ModelRegistryConfig } from "./types";
+import { MODEL_REGISTRY_KV_KEY } from "./config";
+import { MODEL_REGISTRY_REFRESH_MS } from "./constants";
 
 // --- Gemini CLI Models Configuration ---
+// Built-in models; MODEL_REGISTRY and the KV registry are merged over these by loadModelRegistry
 export const geminiCliModels: Record<string, ModelInfo> = {
 	"gemini-2.5-pro": {
 		maxTokens: 65536,
 		contextWindow: 1_048_576,
 		supportsImages: true,
+		supportsAudio: true,
+		supportsPdf: true,
 		supportsPromptCache: false,
 		inputPrice: 0,
 		outputPrice: 0,
 		description: "Google's Gemini 2.5 Pro model via OAuth (free tier)",
-		thinking: true
+		thinking: true,
+		// General availability of Gemini 2.5 Pro and Flash (2025-06-17)
+		created: 1750118400
 	},
 	"gemini-2.5-flash": {
 		maxTokens: 65536,
 		contextWindow: 1_048_576,
 		supportsImages: true,
+		supportsAudio: true,
+		supportsPdf: true,
 		supportsPromptCache: false,
 		inputPrice: 0,
 		outputPrice: 0,
 		description: "Google's Gemini 2.5 Flash model via OAuth (free tier)",
-		thinking: true
+		thinking: true,
+		created: 1750118400
 	}
 };
 
 // --- Default Model ---
 export const DEFAULT_MODEL = "gemini-2.5-flash";
 
+// --- Default Model Aliases ---
+// Lets clients hardcoded to OpenAI model names work unchanged. "latest-<family>" aliases
+// (e.g. latest-flash, latest-pro) are resolved to the newest registered model of that family.
+export const DEFAULT_MODEL_ALIASES: Record<string, string> = {
+	"gpt-4o": "gemini-2.5-pro",
+	"gpt-4.1": "gemini-2.5-pro",
+	"gpt-4-turbo": "gemini-2.5-pro",
+	"gpt-4": "gemini-2.5-pro",
+	"gpt-4o-mini": "gemini-2.5-flash",
+	"gpt-4.1-mini": "gemini-2.5-flash",
+	"gpt-3.5-turbo": "gemini-2.5-flash"
+};
+
+// Fills the fields a configured model leaves out
+const MODEL_INFO_DEFAULTS: ModelInfo = {
+	maxTokens: 8192,
+	contextWindow: 1_048_576,
+	supportsImages: false,
+	supportsAudio: false,
+	supportsPdf: false,
+	supportsPromptCache: false,
+	inputPrice: 0,
+	outputPrice: 0,
+	description: "",
+	thinking: false,
+	created: 0
+};
+
+const LATEST_ALIAS_PREFIX = "latest-";
+
+let modelRegistry: Record<string, ModelInfo> = { ...geminiCliModels };
+let modelAliases: Record<string, string> = { ...DEFAULT_MODEL_ALIASES };
+let registryLoadedAt = 0;
+
+/**
+ * Reloads the model registry: the built-in models, then MODEL_REGISTRY, then the KV override.
+ * Results are reused for MODEL_REGISTRY_REFRESH_MS, so this is cheap to call on every request.
+ */
+export async function loadModelRegistry(env: Env): Promise<void> {
+	if (Date.now() - registryLoadedAt < MODEL_REGISTRY_REFRESH_MS) {
+		return;
+	}
+	registryLoadedAt = Date.now();
+
+	let kvConfig: string | null = null;
+	try {
+		kvConfig = await env.GEMINI_CLI_LOADBALANCE?.get(MODEL_REGISTRY_KV_KEY);
+	} catch (kvError) {
+		console.error("Failed to read model registry from KV:", kvError);
+	}
+
+	const registry: Record<string, ModelInfo> = { ...geminiCliModels };
+	const aliases: Record<string, string> = { ...DEFAULT_MODEL_ALIASES };
+	for (const [source, raw] of [
+		["MODEL_REGISTRY", env.MODEL_REGISTRY],
+		["KV", kvConfig]
+	]) {
+		if (!raw) continue;
+		try {
+			const config = JSON.parse(raw) as ModelRegistryConfig;
+			for (const [modelId, info] of Object.entries(config.models ?? {})) {
+				registry[modelId] = { ...MODEL_INFO_DEFAULTS, ...registry[modelId], ...info };
+			}
+			Object.assign(aliases, config.aliases);
+		} catch (e) {
+			console.error(`Ignoring invalid model registry from ${source}:`, e);
+		}
+	}
+
+	modelRegistry = registry;
+	modelAliases = aliases;
+}
+
+/**
+ * Family of a model id without version and release suffixes, e.g. "flash-lite" for gemini-2.5-flash-lite-preview-06-17.
+ */
+function getModelFamily(modelId: string): string | null {
+	return /^gemini-[\d.]+-(.+?)(?:-preview.*|-exp.*|-\d{3})?$/.exec(modelId)?.[1] ?? null;
+}
+
+function resolveLatestAlias(alias: string): string | undefined {
+	const family = alias.substring(LATEST_ALIAS_PREFIX.length);
+	let latest: string | undefined;
+	for (const [modelId, info] of Object.entries(modelRegistry)) {
+		if (getModelFamily(modelId) === family && (!latest || info.created > modelRegistry[latest].created)) {
+			latest = modelId;
+		}
+	}
+	return latest;
+}
+
 // --- Helper Functions ---
+
+/**
+ * Resolves an alias to the id of the model that serves it. Unknown ids are returned unchanged.
+ */
+export function resolveModelId(modelId: string): string {
+	if (modelId in modelRegistry) {
+		return modelId;
+	}
+	// An alias may point at a latest-<family> alias, but not at another fixed alias
+	let target = modelAliases[modelId] ?? modelId;
+	if (!(target in modelRegistry) && target.startsWith(LATEST_ALIAS_PREFIX)) {
+		target = resolveLatestAlias(target) ?? target;
+	}
+	return target in modelRegistry ? target : modelId;
+}
+
 export function getModelInfo(modelId: string): ModelInfo | null {
-	return geminiCliModels[modelId] || null;
+	return modelRegistry[resolveModelId(modelId)] || null;
 }
 
 export function getAllModelIds(): string[] {
-	return Object.keys(geminiCliModels);
+	return Object.keys(modelRegistry);
 }
 
 export function isValidModel(modelId: string): boolean {
-	return modelId in geminiCliModels;
+	return resolveModelId(modelId) in modelRegistry;
 }
@@ -0,0 +1,70 @@
+import { CoordinatorAcquireRequest, RotationPool } from "./types";
+import { InMemoryRotationCoordinator } from "./helpers/rotation-coordinator";
+
+interface StoredCooldown {
+	pool: RotationPool;
+	id: string;
+	until: number;
+	scope?: string;
+}
+
+const COOLDOWN_STORAGE_PREFIX = "cooldown:";
+
+/**
+ * Durable Object owning the rotation state shared by every Worker isolate (bound as ROTATION_COORDINATOR).
+ * A single instance handles one request at a time, so each acquire sees the results of all earlier ones.
+ * Cooldowns are persisted and survive the object being evicted; in-flight counts and cursors start over.
+ */
+export class RotationCoordinatorObject implements DurableObject {
+	private state: DurableObjectState;
+	private coordinator = new InMemoryRotationCoordinator();
+
+	constructor(state: DurableObjectState) {
+		this.state = state;
+		state.blockConcurrencyWhile(async () => {
+			const stored = await state.storage.list<StoredCooldown>({ prefix: COOLDOWN_STORAGE_PREFIX });
+			const now = Date.now();
+			for (const [key, cooldown] of stored) {
+				if (cooldown.until > now) {
+					await this.coordinator.setCooldown(cooldown.pool, cooldown.id, cooldown.until, cooldown.scope);
+				} else {
+					await state.storage.delete(key);
+				}
+			}
+		});
+	}
+
+	async fetch(request: Request): Promise<Response> {
+		const method = new URL(request.url).pathname.slice(1);
+		try {
+			switch (method) {
+				case "acquire": {
+					const body = await request.json<CoordinatorAcquireRequest>();
+					return Response.json({ id: await this.coordinator.acquire(body) });
+				}
+				case "release": {
+					const body = await request.json<{ pool: RotationPool; id: string; latencyMs?: number }>();
+					await this.coordinator.release(body.pool, body.id, body.latencyMs);
+					return new Response(null, { status: 204 });
+				}
+				case "cooldown": {
+					const body = await request.json<StoredCooldown>();
+					await this.coordinator.setCooldown(body.pool, body.id, body.until, body.scope);
+					const until = this.coordinator.getCooldown(body.pool, body.id, body.scope) ?? body.until;
+					const scopeSuffix = body.scope === undefined ? "" : `:${body.scope}`;
+					await this.state.storage.put<StoredCooldown>(
+						`${COOLDOWN_STORAGE_PREFIX}${body.pool}:${body.id}${scopeSuffix}`,
+						{ ...body, until }
+					);
+					return new Response(null, { status: 204 });
+				}
+				default:
+					return Response.json({ error: `Unknown coordinator method '${method}'` }, { status: 404 });
+			}
+		} catch (e: unknown) {
+			const errorMessage = e instanceof Error ? e.message : String(e);
+			console.error(`[RotationCoordinator] ${method} failed:`, errorMessage);
+			return Response.json({ error: errorMessage }, { status: 500 });
+		}
+	}
+}
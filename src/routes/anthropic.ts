@@ -0,0 +1,350 @@
+import { Hono } from "hono";
+import {
+	Env,
+	AnthropicMessagesRequest,
+	AnthropicMessagesResponse,
+	AnthropicMessage,
+	AnthropicImageBlock,
+	AnthropicTextBlock,
+	AnthropicToolChoice,
+	ChatMessage,
+	GeminiFunctionCall,
+	GeminiRequestOptions,
+	MessageContent,
+	StreamChunk,
+	Tool,
+	ToolCall,
+	ToolChoice,
+	UsageData
+} from "../types";
+import { DEFAULT_MODEL, getAllModelIds, getModelInfo, isValidModel, resolveModelId } from "../models";
+import { DEFAULT_THINKING_BUDGET, DISABLED_THINKING_BUDGET } from "../constants";
+import { createAnthropicStreamTransformer } from "../stream-transformer";
+import { CONTEXT_TRUNCATION_HEADER, FALLBACK_TENANT_HEADER, SESSION_ID_HEADER } from "../config";
+import { RequestDispatcher } from "../helpers/request-dispatcher";
+import { SessionAffinityHelper } from "../helpers/session-affinity";
+import { ContextWindowHelper } from "../helpers/context-window";
+import { toAnthropicStopReason } from "../utils/finish-reason-utils";
+import { getServedModelHeaders, peekModelSwitch } from "../utils/served-model-utils";
+
+/**
+ * Anthropic Messages API compatible routes, served by the same Gemini pipeline as the OpenAI routes.
+ */
+export const AnthropicRoute = new Hono<{ Bindings: Env }>();
+
+type AnthropicErrorType = "invalid_request_error" | "not_found_error" | "api_error";
+
+function anthropicError(type: AnthropicErrorType, message: string) {
+	return { type: "error", error: { type, message } };
+}
+
+/**
+ * Converts an Anthropic image block into an OpenAI-style image_url part understood by messageToGeminiFormat.
+ */
+function imageBlockToContent(block: AnthropicImageBlock): MessageContent {
+	const url =
+		block.source.type === "base64" ? `data:${block.source.media_type};base64,${block.source.data}` : block.source.url;
+	return { type: "image_url", image_url: { url } };
+}
+
+function textBlocksToString(content: string | Array<AnthropicTextBlock | AnthropicImageBlock> | undefined): string {
+	if (!content) return "";
+	if (typeof content === "string") return content;
+	return content
+		.filter((block): block is AnthropicTextBlock => block.type === "text")
+		.map((block) => block.text)
+		.join("\n");
+}
+
+/**
+ * Flattens Anthropic messages into the ChatMessage shape used by the Gemini client.
+ * tool_result blocks become "tool" messages and tool_use blocks become assistant tool_calls.
+ */
+function toChatMessages(messages: AnthropicMessage[]): ChatMessage[] {
+	const result: ChatMessage[] = [];
+
+	for (const msg of messages) {
+		if (typeof msg.content === "string") {
+			result.push({ role: msg.role, content: msg.content });
+			continue;
+		}
+
+		const parts: MessageContent[] = [];
+		const toolCalls: ToolCall[] = [];
+
+		for (const block of msg.content) {
+			switch (block.type) {
+				case "text":
+					parts.push({ type: "text", text: block.text });
+					break;
+				case "image":
+					parts.push(imageBlockToContent(block));
+					break;
+				case "tool_use":
+					toolCalls.push({
+						id: block.id,
+						type: "function",
+						function: { name: block.name, arguments: JSON.stringify(block.input ?? {}) }
+					});
+					break;
+				case "tool_result":
+					// Tool results must precede any text the user sends alongside them
+					result.push({
+						role: "tool",
+						tool_call_id: block.tool_use_id,
+						content: block.is_error ? `Error: ${textBlocksToString(block.content)}` : textBlocksToString(block.content)
+					});
+					break;
+				case "thinking":
+					// Previous thinking is not replayed to Gemini
+					break;
+			}
+		}
+
+		if (msg.role === "assistant" && toolCalls.length > 0) {
+			const text = parts.map((part) => part.text || "").join("");
+			result.push({ role: "assistant", content: text, tool_calls: toolCalls });
+		} else if (parts.length > 0) {
+			result.push({ role: msg.role, content: parts });
+		}
+	}
+
+	return result;
+}
+
+function toTools(body: AnthropicMessagesRequest): Tool[] | undefined {
+	if (!body.tools || body.tools.length === 0) return undefined;
+	return body.tools.map((tool) => ({
+		type: "function",
+		function: {
+			name: tool.name,
+			description: tool.description,
+			parameters: tool.input_schema
+		}
+	}));
+}
+
+function toToolChoice(choice: AnthropicToolChoice | undefined): ToolChoice | undefined {
+	if (!choice) return undefined;
+	switch (choice.type) {
+		case "none":
+			return "none";
+		case "tool":
+			return { type: "function", function: { name: choice.name } };
+		case "any":
+			return "required";
+		default:
+			return "auto";
+	}
+}
+
+/**
+ * Collects a complete Anthropic message from the Gemini chunk stream.
+ */
+async function collectMessage(stream: AsyncGenerator<StreamChunk>, model: string): Promise<AnthropicMessagesResponse> {
+	const content: AnthropicMessagesResponse["content"] = [];
+	let usage: UsageData | undefined;
+	let finishReason: string | undefined;
+
+	const appendText = (type: "text" | "thinking", text: string) => {
+		const last = content[content.length - 1];
+		if (type === "text" && last?.type === "text") {
+			last.text += text;
+		} else if (type === "thinking" && last?.type === "thinking") {
+			last.thinking += text;
+		} else if (type === "text") {
+			content.push({ type: "text", text });
+		} else {
+			content.push({ type: "thinking", thinking: text, signature: "" });
+		}
+	};
+
+	for await (const chunk of stream) {
+		if ((chunk.type === "text" || chunk.type === "thinking_content") && typeof chunk.data === "string") {
+			appendText("text", chunk.data);
+		} else if (chunk.type === "real_thinking" && typeof chunk.data === "string") {
+			appendText("thinking", chunk.data);
+		} else if (chunk.type === "tool_code" && typeof chunk.data === "object") {
+			const toolData = chunk.data as GeminiFunctionCall;
+			content.push({
+				type: "tool_use",
+				id: `toolu_${crypto.randomUUID().replace(/-/g, "")}`,
+				name: toolData.name,
+				input: (toolData.args ?? {}) as Record<string, unknown>
+			});
+		} else if (chunk.type === "finish_reason" && typeof chunk.data === "string") {
+			finishReason = chunk.data;
+		} else if (chunk.type === "usage" && typeof chunk.data === "object") {
+			usage = chunk.data as UsageData;
+		}
+	}
+
+	return {
+		id: `msg_${crypto.randomUUID().replace(/-/g, "")}`,
+		type: "message",
+		role: "assistant",
+		model,
+		content,
+		stop_reason: toAnthropicStopReason(
+			finishReason,
+			content.some((block) => block.type === "tool_use")
+		),
+		stop_sequence: null,
+		usage: {
+			input_tokens: usage?.inputTokens ?? 0,
+			output_tokens: usage?.outputTokens ?? 0
+		}
+	};
+}
+
+// Messages endpoint
+AnthropicRoute.post("/messages", async (c) => {
+	try {
+		console.log("Anthropic messages request received");
+		const body = await c.req.json<AnthropicMessagesRequest>();
+		const model = resolveModelId(body.model || DEFAULT_MODEL);
+		// Anthropic API compatibility: stream defaults to false
+		const stream = body.stream === true;
+
+		if (!Array.isArray(body.messages) || body.messages.length === 0) {
+			return c.json(anthropicError("invalid_request_error", "messages: field required"), 400);
+		}
+
+		if (!isValidModel(model)) {
+			return c.json(
+				anthropicError(
+					"not_found_error",
+					`model: '${model}' not found. Available models: ${getAllModelIds().join(", ")}`
+				),
+				404
+			);
+		}
+
+		const messages = toChatMessages(body.messages);
+		const hasImages = messages.some(
+			(msg) => Array.isArray(msg.content) && msg.content.some((content) => content.type === "image_url")
+		);
+		if (hasImages && !getModelInfo(model)?.supportsImages) {
+			return c.json(anthropicError("invalid_request_error", `Model '${model}' does not support image inputs.`), 400);
+		}
+
+		const systemPrompt = textBlocksToString(body.system);
+
+		// Map the Anthropic thinking config onto Gemini thinking
+		const thinkingEnabled = body.thinking?.type === "enabled";
+		const thinkingBudget =
+			body.thinking?.type === "enabled"
+				? body.thinking.budget_tokens
+				: body.thinking?.type === "disabled"
+					? DISABLED_THINKING_BUDGET
+					: DEFAULT_THINKING_BUDGET;
+
+		const geminiOptions: GeminiRequestOptions = {
+			includeReasoning: thinkingEnabled,
+			thinkingBudget,
+			tools: toTools(body),
+			tool_choice: toToolChoice(body.tool_choice),
+			max_tokens: body.max_tokens,
+			temperature: body.temperature,
+			top_p: body.top_p,
+			stop: body.stop_sequences,
+			allowFallback: body.allow_fallback,
+			tenant: c.req.header(FALLBACK_TENANT_HEADER)
+		};
+
+		console.log("Anthropic request parsed:", {
+			model,
+			messageCount: messages.length,
+			stream,
+			thinkingEnabled,
+			thinkingBudget,
+			toolCount: geminiOptions.tools?.length ?? 0
+		});
+
+		const fitted = ContextWindowHelper.fit(
+			model,
+			systemPrompt,
+			messages,
+			body.max_tokens,
+			ContextWindowHelper.isTruncationRequested(c.req.header(CONTEXT_TRUNCATION_HEADER))
+		);
+		if (fitted.error) {
+			return c.json(anthropicError("invalid_request_error", fitted.error), 400);
+		}
+		const conversation = fitted.messages;
+
+		let dispatcher: RequestDispatcher;
+		try {
+			const session = await SessionAffinityHelper.fromRequest(
+				c.env,
+				c.req.header(SESSION_ID_HEADER),
+				body.metadata?.user_id,
+				{ systemPrompt, messages }
+			);
+			dispatcher = await RequestDispatcher.create(c.env, session);
+		} catch (err) {
+			return c.json(anthropicError("api_error", (err as Error).message), 500);
+		}
+
+		if (stream) {
+			const {
+				stream: chunks,
+				modelSwitch,
+				error
+			} = await peekModelSwitch(dispatcher.streamContent(model, systemPrompt, conversation, geminiOptions));
+			// Blocked prompts fail before any output, so they can still be reported as client errors
+			if ((error as { status?: number } | undefined)?.status === 400) {
+				return c.json(anthropicError("invalid_request_error", (error as Error).message), 400);
+			}
+			const { readable, writable } = new TransformStream();
+			const writer = writable.getWriter();
+			const anthropicStream = readable.pipeThrough(createAnthropicStreamTransformer(modelSwitch?.servedModel ?? model));
+
+			(async () => {
+				try {
+					for await (const chunk of chunks) {
+						await writer.write(chunk);
+					}
+					await writer.close();
+				} catch (streamError: unknown) {
+					const errorMessage = streamError instanceof Error ? streamError.message : String(streamError);
+					console.error("Anthropic stream error:", errorMessage);
+					await writer.write({
+						type: "text",
+						data: `Error: ${errorMessage}`
+					});
+					await writer.close();
+				}
+			})();
+
+			return new Response(anthropicStream, {
+				headers: {
+					"Content-Type": "text/event-stream",
+					"Cache-Control": "no-cache",
+					Connection: "keep-alive",
+					"Access-Control-Allow-Origin": "*",
+					...getServedModelHeaders(model, modelSwitch)
+				}
+			});
+		}
+
+		try {
+			const { stream: chunks, modelSwitch } = await peekModelSwitch(
+				dispatcher.streamContent(model, systemPrompt, conversation, geminiOptions)
+			);
+			const response = await collectMessage(chunks, modelSwitch?.servedModel ?? model);
+			return c.json(response, 200, getServedModelHeaders(model, modelSwitch));
+		} catch (completionError: unknown) {
+			const errorMessage = completionError instanceof Error ? completionError.message : String(completionError);
+			console.error("Anthropic completion error:", errorMessage);
+			if ((completionError as { status?: number }).status === 400) {
+				return c.json(anthropicError("invalid_request_error", errorMessage), 400);
+			}
+			return c.json(anthropicError("api_error", errorMessage), 500);
+		}
+	} catch (e: unknown) {
+		const errorMessage = e instanceof Error ? e.message : String(e);
+		console.error("Top-level error:", e);
+		return c.json(anthropicError("api_error", errorMessage), 500);
+	}
+});
@@ -0,0 +1,172 @@
+import { Hono } from "hono";
+import {
+	Env,
+	ChatMessage,
+	CompletionChoice,
+	CompletionRequest,
+	CompletionResponse,
+	GeminiRequestOptions
+} from "../types";
+import { DEFAULT_MODEL, getAllModelIds, isValidModel, resolveModelId } from "../models";
+import { DEFAULT_THINKING_BUDGET } from "../constants";
+import { FALLBACK_TENANT_HEADER, OPENAI_TEXT_COMPLETION_OBJECT, SESSION_ID_HEADER } from "../config";
+import { createCompletionsStreamTransformer } from "../stream-transformer";
+import { RequestDispatcher } from "../helpers/request-dispatcher";
+import { SessionAffinityHelper } from "../helpers/session-affinity";
+import { buildSuffixInstruction } from "../utils/prompt-utils";
+import { toOpenAIFinishReason } from "../utils/finish-reason-utils";
+import { getServedModelHeaders, peekModelSwitch } from "../utils/served-model-utils";
+
+/**
+ * Legacy OpenAI text completions route for prompt-style clients (e.g. older eval harnesses).
+ */
+export const CompletionsRoute = new Hono<{ Bindings: Env }>();
+
+// Legacy completions endpoint
+CompletionsRoute.post("/completions", async (c) => {
+	try {
+		console.log("Legacy completions request received");
+		const body = await c.req.json<CompletionRequest>();
+		const model = resolveModelId(body.model || DEFAULT_MODEL);
+		// Unlike chat completions, the legacy endpoint only streams when asked to
+		const stream = body.stream === true;
+
+		const prompts = typeof body.prompt === "string" ? [body.prompt] : body.prompt;
+		if (!Array.isArray(prompts) || prompts.length === 0 || prompts.some((prompt) => typeof prompt !== "string")) {
+			return c.json({ error: "prompt must be a string or an array of strings" }, 400);
+		}
+		if (prompts.some((prompt) => prompt.length === 0)) {
+			return c.json({ error: "prompt must not be empty" }, 400);
+		}
+		if (stream && prompts.length > 1) {
+			return c.json({ error: "Streaming is only supported for a single prompt" }, 400);
+		}
+
+		if (!isValidModel(model)) {
+			return c.json(
+				{
+					error: `Model '${model}' not found. Available models: ${getAllModelIds().join(", ")}`
+				},
+				400
+			);
+		}
+
+		const systemPrompt = body.suffix ? buildSuffixInstruction(body.suffix) : "";
+		const geminiOptions: GeminiRequestOptions = {
+			// Prompt-style clients expect plain text, so thinking output is never included
+			includeReasoning: false,
+			thinkingBudget: DEFAULT_THINKING_BUDGET,
+			max_tokens: body.max_tokens,
+			temperature: body.temperature,
+			top_p: body.top_p,
+			stop: body.stop,
+			presence_penalty: body.presence_penalty,
+			frequency_penalty: body.frequency_penalty,
+			seed: body.seed,
+			allowFallback: body.allow_fallback,
+			tenant: c.req.header(FALLBACK_TENANT_HEADER)
+		};
+		const toMessages = (prompt: string): ChatMessage[] => [{ role: "user", content: prompt }];
+
+		let dispatcher: RequestDispatcher;
+		try {
+			const session = await SessionAffinityHelper.fromRequest(c.env, c.req.header(SESSION_ID_HEADER), body.user);
+			dispatcher = await RequestDispatcher.create(c.env, session);
+		} catch (err) {
+			return c.json({ error: (err as Error).message }, 500);
+		}
+
+		if (stream) {
+			const {
+				stream: chunks,
+				modelSwitch,
+				error
+			} = await peekModelSwitch(dispatcher.streamContent(model, systemPrompt, toMessages(prompts[0]), geminiOptions));
+			// Blocked prompts fail before any output, so they can still be reported as client errors
+			if ((error as { status?: number } | undefined)?.status === 400) {
+				return c.json({ error: (error as Error).message }, 400);
+			}
+			const { readable, writable } = new TransformStream();
+			const writer = writable.getWriter();
+			const completionsStream = readable.pipeThrough(
+				createCompletionsStreamTransformer(
+					modelSwitch?.servedModel ?? model,
+					body.echo ? prompts[0] : undefined,
+					dispatcher.getSystemFingerprint()
+				)
+			);
+
+			(async () => {
+				try {
+					for await (const chunk of chunks) {
+						await writer.write(chunk);
+					}
+					await writer.close();
+				} catch (streamError: unknown) {
+					const errorMessage = streamError instanceof Error ? streamError.message : String(streamError);
+					console.error("Completions stream error:", errorMessage);
+					await writer.write({
+						type: "text",
+						data: `Error: ${errorMessage}`
+					});
+					await writer.close();
+				}
+			})();
+
+			return new Response(completionsStream, {
+				headers: {
+					"Content-Type": "text/event-stream",
+					"Cache-Control": "no-cache",
+					Connection: "keep-alive",
+					"Access-Control-Allow-Origin": "*",
+					...getServedModelHeaders(model, modelSwitch)
+				}
+			});
+		}
+
+		try {
+			// Each prompt in a batch becomes its own choice, in order
+			const completions = await Promise.all(
+				prompts.map((prompt) => dispatcher.getCompletion(model, systemPrompt, toMessages(prompt), geminiOptions))
+			);
+
+			const choices: CompletionChoice[] = completions.map((completion, index) => ({
+				text: body.echo ? prompts[index] + completion.content : completion.content,
+				index,
+				logprobs: null,
+				// Without tool calls the mapping never yields "tool_calls"
+				finish_reason: toOpenAIFinishReason(completion.finish_reason, false) as CompletionChoice["finish_reason"]
+			}));
+
+			// Prompts of a batch are dispatched separately; any fallback among them is reported
+			const modelSwitch = completions.find((completion) => completion.modelSwitch)?.modelSwitch;
+			const response: CompletionResponse = {
+				id: `cmpl-${crypto.randomUUID()}`,
+				object: OPENAI_TEXT_COMPLETION_OBJECT,
+				created: Math.floor(Date.now() / 1000),
+				model: modelSwitch?.servedModel ?? model,
+				system_fingerprint: dispatcher.getSystemFingerprint(),
+				choices
+			};
+
+			const inputTokens = completions.reduce((sum, completion) => sum + (completion.usage?.inputTokens ?? 0), 0);
+			const outputTokens = completions.reduce((sum, completion) => sum + (completion.usage?.outputTokens ?? 0), 0);
+			response.usage = {
+				prompt_tokens: inputTokens,
+				completion_tokens: outputTokens,
+				total_tokens: inputTokens + outputTokens
+			};
+
+			return c.json(response, 200, getServedModelHeaders(model, modelSwitch));
+		} catch (completionError: unknown) {
+			const errorMessage = completionError instanceof Error ? completionError.message : String(completionError);
+			console.error("Completions error:", errorMessage);
+			const status = (completionError as { status?: number }).status === 400 ? 400 : 500;
+			return c.json({ error: errorMessage }, status);
+		}
+	} catch (e: unknown) {
+		const errorMessage = e instanceof Error ? e.message : String(e);
+		console.error("Top-level error:", e);
+		return c.json({ error: errorMessage }, 500);
+	}
+});
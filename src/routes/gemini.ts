@@ -0,0 +1,194 @@
+import { Hono } from "hono";
+import type { ContentfulStatusCode } from "hono/utils/http-status";
+import { Env } from "../types";
+import { getAllModelIds, getModelInfo, isValidModel, resolveModelId } from "../models";
+import { RequestDispatcher } from "../helpers/request-dispatcher";
+import { FALLBACK_TENANT_HEADER } from "../config";
+
+/**
+ * Native Gemini API routes (v1beta) so Google GenAI SDK clients can use the rotating pool directly.
+ * Request bodies are forwarded as-is inside the Code Assist envelope.
+ */
+export const GeminiRoute = new Hono<{ Bindings: Env }>();
+
+type GeminiMethod = "generateContent" | "streamGenerateContent";
+
+const SUPPORTED_METHODS: GeminiMethod[] = ["generateContent", "streamGenerateContent"];
+
+// Google's canonical error status for each HTTP status the upstream API returns
+const GOOGLE_ERROR_STATUSES: Record<number, string> = {
+	400: "INVALID_ARGUMENT",
+	401: "UNAUTHENTICATED",
+	403: "PERMISSION_DENIED",
+	404: "NOT_FOUND",
+	409: "ABORTED",
+	429: "RESOURCE_EXHAUSTED",
+	499: "CANCELLED",
+	500: "INTERNAL",
+	501: "NOT_IMPLEMENTED",
+	503: "UNAVAILABLE",
+	504: "DEADLINE_EXCEEDED"
+};
+
+function geminiError(code: number, message: string, status: string) {
+	return { error: { code, message, status } };
+}
+
+/**
+ * Maps a failed upstream request to a native error response, keeping its HTTP status and, when the
+ * upstream body carries one, Google's own error message and status.
+ */
+function toGeminiError(err: unknown): { code: number; body: ReturnType<typeof geminiError> } {
+	const { status, body } = err as { status?: number; body?: string };
+	const code = status && status >= 400 && status < 600 ? status : 500;
+	let upstream: { message?: string; status?: string } | undefined;
+	try {
+		upstream = body ? (JSON.parse(body) as { error?: typeof upstream }).error : undefined;
+	} catch {
+		// Not a Google error body; report the error message instead
+	}
+	const message = upstream?.message ?? (err instanceof Error ? err.message : String(err));
+	return { code, body: geminiError(code, message, upstream?.status ?? GOOGLE_ERROR_STATUSES[code] ?? "UNKNOWN") };
+}
+
+function toNativeModel(modelId: string) {
+	const info = getModelInfo(modelId);
+	return {
+		name: `models/${modelId}`,
+		displayName: modelId,
+		description: info?.description ?? "",
+		inputTokenLimit: info?.contextWindow ?? 0,
+		outputTokenLimit: info?.maxTokens ?? 0,
+		supportedGenerationMethods: SUPPORTED_METHODS,
+		thinking: info?.thinking ?? false
+	};
+}
+
+/**
+ * Splits a "gemini-2.5-pro:streamGenerateContent" path segment into model (aliases resolved) and method.
+ */
+function parseModelAction(modelAction: string): { model: string; method: string } {
+	const separator = modelAction.lastIndexOf(":");
+	if (separator === -1) {
+		return { model: modelAction, method: "" };
+	}
+	return { model: resolveModelId(modelAction.substring(0, separator)), method: modelAction.substring(separator + 1) };
+}
+
+// List models in the native format
+GeminiRoute.get("/models", async (c) => {
+	return c.json({ models: getAllModelIds().map(toNativeModel) });
+});
+
+// Get a single model in the native format
+GeminiRoute.get("/models/:model", async (c) => {
+	const model = resolveModelId(c.req.param("model"));
+	if (!isValidModel(model)) {
+		return c.json(geminiError(404, `models/${model} is not found.`, "NOT_FOUND"), 404);
+	}
+	return c.json(toNativeModel(model));
+});
+
+// generateContent / streamGenerateContent
+GeminiRoute.post("/models/:modelAction", async (c) => {
+	try {
+		const { model, method } = parseModelAction(c.req.param("modelAction"));
+		if (!SUPPORTED_METHODS.includes(method as GeminiMethod)) {
+			return c.json(geminiError(404, `Method '${method}' is not supported.`, "NOT_FOUND"), 404);
+		}
+		if (!isValidModel(model)) {
+			return c.json(
+				geminiError(404, `models/${model} is not found. Available models: ${getAllModelIds().join(", ")}`, "NOT_FOUND"),
+				404
+			);
+		}
+
+		const body = await c.req.json<Record<string, unknown>>();
+		if (!Array.isArray(body.contents) || body.contents.length === 0) {
+			return c.json(geminiError(400, "contents is not specified", "INVALID_ARGUMENT"), 400);
+		}
+		// The model lives on the envelope, not inside the request
+		const request = { ...body };
+		delete request.model;
+
+		console.log("Native Gemini request received:", { model, method, contentCount: body.contents.length });
+
+		const fallback = { tenant: c.req.header(FALLBACK_TENANT_HEADER) };
+
+		let dispatcher: RequestDispatcher;
+		try {
+			dispatcher = await RequestDispatcher.create(c.env);
+		} catch (err) {
+			return c.json(geminiError(500, (err as Error).message, "INTERNAL"), 500);
+		}
+
+		if (method === "generateContent") {
+			try {
+				return c.json(await dispatcher.generateNativeContent(model, request, fallback));
+			} catch (err: unknown) {
+				const { code, body } = toGeminiError(err);
+				console.error("Native generateContent error:", body.error.message);
+				return c.json(body, code as ContentfulStatusCode);
+			}
+		}
+
+		// The GenAI SDKs request ?alt=sse; without it the API returns a JSON array of chunks
+		if (c.req.query("alt") !== "sse") {
+			try {
+				const chunks: Record<string, unknown>[] = [];
+				for await (const chunk of dispatcher.streamNativeContent(model, request, fallback)) {
+					chunks.push(chunk);
+				}
+				return c.json(chunks);
+			} catch (err: unknown) {
+				const { code, body } = toGeminiError(err);
+				console.error("Native streamGenerateContent error:", body.error.message);
+				return c.json(body, code as ContentfulStatusCode);
+			}
+		}
+
+		// Errors before the first chunk still get their HTTP status; later ones can only be sent in-band
+		const chunks = dispatcher.streamNativeContent(model, request, fallback);
+		let first: IteratorResult<Record<string, unknown>>;
+		try {
+			first = await chunks.next();
+		} catch (err: unknown) {
+			const { code, body } = toGeminiError(err);
+			console.error("Native streamGenerateContent error:", body.error.message);
+			return c.json(body, code as ContentfulStatusCode);
+		}
+
+		const { readable, writable } = new TransformStream();
+		const writer = writable.getWriter();
+		const encoder = new TextEncoder();
+
+		(async () => {
+			try {
+				if (!first.done) {
+					await writer.write(encoder.encode(`data: ${JSON.stringify(first.value)}\n\n`));
+					for await (const chunk of chunks) {
+						await writer.write(encoder.encode(`data: ${JSON.stringify(chunk)}\n\n`));
+					}
+				}
+			} catch (streamError: unknown) {
+				const { body } = toGeminiError(streamError);
+				console.error("Native stream error:", body.error.message);
+				await writer.write(encoder.encode(`data: ${JSON.stringify(body)}\n\n`));
+			}
+			await writer.close();
+		})();
+
+		return new Response(readable, {
+			headers: {
+				"Content-Type": "text/event-stream",
+				"Cache-Control": "no-cache",
+				Connection: "keep-alive",
+				"Access-Control-Allow-Origin": "*"
+			}
+		});
+	} catch (e: unknown) {
+		const errorMessage = e instanceof Error ? e.message : String(e);
+		console.error("Top-level error:", e);
+		return c.json(geminiError(500, errorMessage, "INTERNAL"), 500);
+	}
+});
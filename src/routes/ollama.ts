@@ -0,0 +1,432 @@
+import { Hono } from "hono";
+import {
+	Env,
+	ChatMessage,
+	GeminiFunctionCall,
+	GeminiRequestOptions,
+	MessageContent,
+	OllamaChatRequest,
+	OllamaGenerateRequest,
+	OllamaMessage,
+	OllamaOptions,
+	OllamaToolCall,
+	StreamChunk,
+	ToolCall,
+	UsageData
+} from "../types";
+import { DEFAULT_MODEL, getAllModelIds, getModelInfo, isValidModel, resolveModelId } from "../models";
+import { DEFAULT_THINKING_BUDGET } from "../constants";
+import { createOllamaStreamTransformer } from "../stream-transformer";
+import { CONTEXT_TRUNCATION_HEADER, FALLBACK_TENANT_HEADER, SESSION_ID_HEADER } from "../config";
+import { RequestDispatcher } from "../helpers/request-dispatcher";
+import { SessionAffinityHelper } from "../helpers/session-affinity";
+import { ContextWindowHelper } from "../helpers/context-window";
+import { detectImageMimeTypeFromBase64 } from "../utils/image-utils";
+import { buildSuffixInstruction } from "../utils/prompt-utils";
+import { toOllamaDoneReason } from "../utils/finish-reason-utils";
+import { getServedModelHeaders, peekModelSwitch } from "../utils/served-model-utils";
+
+/**
+ * Ollama-compatible API routes for local tooling (IDE plugins) that only speak the Ollama protocol.
+ */
+export const OllamaRoute = new Hono<{ Bindings: Env }>();
+
+// Version reported to clients that gate features on the Ollama server version
+const OLLAMA_COMPAT_VERSION = "0.9.0";
+
+function imagesToContent(images: string[] | undefined): MessageContent[] {
+	return (images || []).map((image) => ({
+		type: "image_url",
+		image_url: { url: `data:${detectImageMimeTypeFromBase64(image) ?? "image/jpeg"};base64,${image}` }
+	}));
+}
+
+/**
+ * Converts Ollama chat messages into ChatMessages plus the system prompt.
+ * Ollama tool calls carry no ids, so ids are generated here and tool results are paired
+ * with the preceding calls by tool_name (or by order when tool_name is absent).
+ */
+function toChatMessages(messages: OllamaMessage[]): { systemPrompt: string; messages: ChatMessage[] } {
+	const systemParts: string[] = [];
+	const result: ChatMessage[] = [];
+	let pendingCalls: ToolCall[] = [];
+
+	for (const msg of messages) {
+		if (msg.role === "system") {
+			systemParts.push(msg.content);
+		} else if (msg.role === "assistant" && msg.tool_calls && msg.tool_calls.length > 0) {
+			pendingCalls = msg.tool_calls.map((toolCall) => ({
+				id: `call_${crypto.randomUUID()}`,
+				type: "function",
+				function: { name: toolCall.function.name, arguments: JSON.stringify(toolCall.function.arguments ?? {}) }
+			}));
+			result.push({ role: "assistant", content: msg.content || "", tool_calls: pendingCalls });
+		} else if (msg.role === "tool") {
+			const matchIndex = msg.tool_name ? pendingCalls.findIndex((call) => call.function.name === msg.tool_name) : 0;
+			const matched = matchIndex >= 0 ? pendingCalls.splice(matchIndex, 1)[0] : undefined;
+			result.push({ role: "tool", tool_call_id: matched?.id ?? msg.tool_name, content: msg.content });
+		} else if (msg.images && msg.images.length > 0) {
+			result.push({ role: msg.role, content: [{ type: "text", text: msg.content }, ...imagesToContent(msg.images)] });
+		} else {
+			result.push({ role: msg.role, content: msg.content });
+		}
+	}
+
+	return { systemPrompt: systemParts.join("\n\n"), messages: result };
+}
+
+/**
+ * Maps shared Ollama request fields (options, format, think) onto Gemini request options.
+ */
+function toGeminiOptions(
+	env: Env,
+	options: OllamaOptions | undefined,
+	format: OllamaChatRequest["format"],
+	think: boolean | undefined
+): GeminiRequestOptions {
+	return {
+		// Follow the worker's real-thinking default unless the client sets "think" explicitly
+		includeReasoning: think ?? env.ENABLE_REAL_THINKING === "true",
+		thinkingBudget: DEFAULT_THINKING_BUDGET,
+		max_tokens: options?.num_predict,
+		temperature: options?.temperature,
+		top_p: options?.top_p,
+		stop: options?.stop,
+		seed: options?.seed,
+		presence_penalty: options?.presence_penalty,
+		frequency_penalty: options?.frequency_penalty,
+		// "json" asks for any JSON; an object is a JSON schema the output must follow
+		response_format:
+			typeof format === "object"
+				? { type: "json_schema", json_schema: { name: "format", schema: format } }
+				: format
+					? { type: "json_object" }
+					: undefined
+	};
+}
+
+/**
+ * Collects the Gemini chunk stream into the pieces of a non-streaming Ollama response.
+ */
+async function collectChunks(stream: AsyncGenerator<StreamChunk>) {
+	let content = "";
+	let thinking = "";
+	let usage: UsageData | undefined;
+	let finishReason: string | undefined;
+	const toolCalls: OllamaToolCall[] = [];
+
+	for await (const chunk of stream) {
+		if ((chunk.type === "text" || chunk.type === "thinking_content") && typeof chunk.data === "string") {
+			content += chunk.data;
+		} else if (chunk.type === "real_thinking" && typeof chunk.data === "string") {
+			thinking += chunk.data;
+		} else if (chunk.type === "tool_code" && typeof chunk.data === "object") {
+			const toolData = chunk.data as GeminiFunctionCall;
+			toolCalls.push({
+				function: { name: toolData.name, arguments: (toolData.args ?? {}) as Record<string, unknown> }
+			});
+		} else if (chunk.type === "finish_reason" && typeof chunk.data === "string") {
+			finishReason = chunk.data;
+		} else if (chunk.type === "usage" && typeof chunk.data === "object") {
+			usage = chunk.data as UsageData;
+		}
+	}
+
+	return { content, thinking, toolCalls, usage, finishReason };
+}
+
+function doneFields(startTime: number, usage: UsageData | undefined, finishReason?: string) {
+	return {
+		done: true,
+		done_reason: toOllamaDoneReason(finishReason),
+		// Ollama reports durations in nanoseconds
+		total_duration: (Date.now() - startTime) * 1_000_000,
+		prompt_eval_count: usage?.inputTokens ?? 0,
+		eval_count: usage?.outputTokens ?? 0
+	};
+}
+
+function ndjsonResponse(stream: ReadableStream, headers: Record<string, string> = {}): Response {
+	return new Response(stream, {
+		headers: {
+			"Content-Type": "application/x-ndjson",
+			"Cache-Control": "no-cache",
+			"Access-Control-Allow-Origin": "*",
+			...headers
+		}
+	});
+}
+
+/**
+ * Pipes the Gemini chunk stream through the Ollama NDJSON transformer, reporting failures as an error line.
+ */
+function streamOllama(
+	chunks: AsyncGenerator<StreamChunk>,
+	model: string,
+	mode: "chat" | "generate",
+	headers: Record<string, string>
+): Response {
+	const { readable, writable } = new TransformStream();
+	const writer = writable.getWriter();
+	const ollamaStream = readable.pipeThrough(createOllamaStreamTransformer(model, mode));
+
+	(async () => {
+		try {
+			for await (const chunk of chunks) {
+				await writer.write(chunk);
+			}
+			await writer.close();
+		} catch (streamError: unknown) {
+			const errorMessage = streamError instanceof Error ? streamError.message : String(streamError);
+			console.error("Ollama stream error:", errorMessage);
+			await writer.write({
+				type: "text",
+				data: `Error: ${errorMessage}`
+			});
+			await writer.close();
+		}
+	})();
+
+	return ndjsonResponse(ollamaStream, headers);
+}
+
+// Server version
+OllamaRoute.get("/version", async (c) => {
+	return c.json({ version: OLLAMA_COMPAT_VERSION });
+});
+
+// List local models
+OllamaRoute.get("/tags", async (c) => {
+	const modifiedAt = new Date().toISOString();
+	return c.json({
+		models: getAllModelIds().map((modelId) => ({
+			name: modelId,
+			model: modelId,
+			modified_at: modifiedAt,
+			size: 0,
+			digest: "",
+			details: {
+				format: "gemini",
+				family: "gemini",
+				families: ["gemini"],
+				parameter_size: "",
+				quantization_level: ""
+			}
+		}))
+	});
+});
+
+// Show model information
+OllamaRoute.post("/show", async (c) => {
+	const body = await c.req.json<{ model?: string; name?: string }>();
+	const model = resolveModelId(body.model || body.name || "");
+	const info = getModelInfo(model);
+	if (!info) {
+		return c.json({ error: `model '${model}' not found` }, 404);
+	}
+
+	const capabilities = ["completion", "tools"];
+	if (info.supportsImages) capabilities.push("vision");
+	if (info.thinking) capabilities.push("thinking");
+
+	return c.json({
+		modelfile: "",
+		parameters: "",
+		template: "",
+		details: { format: "gemini", family: "gemini", families: ["gemini"], parameter_size: "", quantization_level: "" },
+		model_info: {
+			"general.architecture": "gemini",
+			"gemini.context_length": info.contextWindow
+		},
+		capabilities
+	});
+});
+
+// Chat endpoint
+OllamaRoute.post("/chat", async (c) => {
+	try {
+		const body = await c.req.json<OllamaChatRequest>();
+		const model = resolveModelId(body.model || DEFAULT_MODEL);
+		// Ollama API compatibility: stream defaults to true unless explicitly set to false
+		const stream = body.stream !== false;
+
+		if (!Array.isArray(body.messages) || body.messages.length === 0) {
+			return c.json({ error: "messages is a required field" }, 400);
+		}
+		if (!isValidModel(model)) {
+			return c.json({ error: `model '${model}' not found. Available models: ${getAllModelIds().join(", ")}` }, 404);
+		}
+
+		const { systemPrompt, messages } = toChatMessages(body.messages);
+		const hasImages = body.messages.some((msg) => msg.images && msg.images.length > 0);
+		if (hasImages && !getModelInfo(model)?.supportsImages) {
+			return c.json({ error: `Model '${model}' does not support image inputs.` }, 400);
+		}
+
+		const geminiOptions: GeminiRequestOptions = {
+			...toGeminiOptions(c.env, body.options, body.format, body.think),
+			tools: body.tools && body.tools.length > 0 ? body.tools : undefined,
+			allowFallback: body.allow_fallback,
+			tenant: c.req.header(FALLBACK_TENANT_HEADER)
+		};
+
+		console.log("Ollama chat request parsed:", { model, messageCount: messages.length, stream });
+
+		const fitted = ContextWindowHelper.fit(
+			model,
+			systemPrompt,
+			messages,
+			geminiOptions.max_tokens,
+			ContextWindowHelper.isTruncationRequested(c.req.header(CONTEXT_TRUNCATION_HEADER))
+		);
+		if (fitted.error) {
+			return c.json({ error: fitted.error }, 400);
+		}
+
+		let dispatcher: RequestDispatcher;
+		try {
+			const session = await SessionAffinityHelper.fromRequest(c.env, c.req.header(SESSION_ID_HEADER), undefined, {
+				systemPrompt,
+				messages
+			});
+			dispatcher = await RequestDispatcher.create(c.env, session);
+		} catch (err) {
+			return c.json({ error: (err as Error).message }, 500);
+		}
+
+		// Wait for the first chunk so a fallback model is reported in the response and headers
+		const {
+			stream: chunks,
+			modelSwitch,
+			error
+		} = await peekModelSwitch(dispatcher.streamContent(model, systemPrompt, fitted.messages, geminiOptions));
+		// Blocked prompts fail before any output, so they can still be reported as client errors
+		if ((error as { status?: number } | undefined)?.status === 400) {
+			return c.json({ error: (error as Error).message }, 400);
+		}
+		const servedModel = modelSwitch?.servedModel ?? model;
+		const servedHeaders = getServedModelHeaders(model, modelSwitch);
+		if (stream) {
+			return streamOllama(chunks, servedModel, "chat", servedHeaders);
+		}
+
+		const startTime = Date.now();
+		try {
+			const { content, thinking, toolCalls, usage, finishReason } = await collectChunks(chunks);
+			return c.json(
+				{
+					model: servedModel,
+					created_at: new Date().toISOString(),
+					message: {
+						role: "assistant",
+						content,
+						thinking: thinking || undefined,
+						tool_calls: toolCalls.length > 0 ? toolCalls : undefined
+					},
+					...doneFields(startTime, usage, finishReason)
+				},
+				200,
+				servedHeaders
+			);
+		} catch (completionError: unknown) {
+			const errorMessage = completionError instanceof Error ? completionError.message : String(completionError);
+			console.error("Ollama chat error:", errorMessage);
+			const status = (completionError as { status?: number }).status === 400 ? 400 : 500;
+			return c.json({ error: errorMessage }, status);
+		}
+	} catch (e: unknown) {
+		const errorMessage = e instanceof Error ? e.message : String(e);
+		console.error("Top-level error:", e);
+		return c.json({ error: errorMessage }, 500);
+	}
+});
+
+// Generate (prompt completion) endpoint
+OllamaRoute.post("/generate", async (c) => {
+	try {
+		const body = await c.req.json<OllamaGenerateRequest>();
+		const model = resolveModelId(body.model || DEFAULT_MODEL);
+		const stream = body.stream !== false;
+
+		if (!isValidModel(model)) {
+			return c.json({ error: `model '${model}' not found. Available models: ${getAllModelIds().join(", ")}` }, 404);
+		}
+
+		// An empty prompt is how Ollama clients preload a model; there is nothing to load here
+		if (!body.prompt && !body.images?.length) {
+			return c.json({ model, created_at: new Date().toISOString(), response: "", done: true, done_reason: "load" });
+		}
+
+		if (body.images?.length && !getModelInfo(model)?.supportsImages) {
+			return c.json({ error: `Model '${model}' does not support image inputs.` }, 400);
+		}
+
+		const prompt = body.prompt || "";
+		const messages: ChatMessage[] = [
+			{
+				role: "user",
+				content: body.images?.length ? [{ type: "text", text: prompt }, ...imagesToContent(body.images)] : prompt
+			}
+		];
+		const systemPrompt = [body.system, body.suffix ? buildSuffixInstruction(body.suffix) : ""]
+			.filter(Boolean)
+			.join("\n\n");
+		const geminiOptions: GeminiRequestOptions = {
+			...toGeminiOptions(c.env, body.options, body.format, body.think),
+			allowFallback: body.allow_fallback,
+			tenant: c.req.header(FALLBACK_TENANT_HEADER)
+		};
+
+		console.log("Ollama generate request parsed:", { model, promptLength: prompt.length, stream });
+
+		let dispatcher: RequestDispatcher;
+		try {
+			const session = await SessionAffinityHelper.fromRequest(c.env, c.req.header(SESSION_ID_HEADER), undefined);
+			dispatcher = await RequestDispatcher.create(c.env, session);
+		} catch (err) {
+			return c.json({ error: (err as Error).message }, 500);
+		}
+
+		// Wait for the first chunk so a fallback model is reported in the response and headers
+		const {
+			stream: chunks,
+			modelSwitch,
+			error
+		} = await peekModelSwitch(dispatcher.streamContent(model, systemPrompt, messages, geminiOptions));
+		// Blocked prompts fail before any output, so they can still be reported as client errors
+		if ((error as { status?: number } | undefined)?.status === 400) {
+			return c.json({ error: (error as Error).message }, 400);
+		}
+		const servedModel = modelSwitch?.servedModel ?? model;
+		const servedHeaders = getServedModelHeaders(model, modelSwitch);
+		if (stream) {
+			return streamOllama(chunks, servedModel, "generate", servedHeaders);
+		}
+
+		const startTime = Date.now();
+		try {
+			const { content, thinking, usage, finishReason } = await collectChunks(chunks);
+			return c.json(
+				{
+					model: servedModel,
+					created_at: new Date().toISOString(),
+					response: content,
+					thinking: thinking || undefined,
+					...doneFields(startTime, usage, finishReason),
+					context: []
+				},
+				200,
+				servedHeaders
+			);
+		} catch (completionError: unknown) {
+			const errorMessage = completionError instanceof Error ? completionError.message : String(completionError);
+			console.error("Ollama generate error:", errorMessage);
+			const status = (completionError as { status?: number }).status === 400 ? 400 : 500;
+			return c.json({ error: errorMessage }, status);
+		}
+	} catch (e: unknown) {
+		const errorMessage = e instanceof Error ? e.message : String(e);
+		console.error("Top-level error:", e);
+		return c.json({ error: errorMessage }, 500);
+	}
+});
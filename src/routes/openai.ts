@@ -1,28 +1,125 @@
 import { Hono } from "hono";
-import { Env, ChatCompletionRequest, ChatCompletionResponse, ChatMessage, ToolCall } from "../types";
-import { geminiCliModels, DEFAULT_MODEL, getAllModelIds } from "../models";
-import { OPENAI_MODEL_OWNER } from "../config";
+import {
+	Env,
+	ChatCompletionRequest,
+	ChatCompletionResponse,
+	ChatMessage,
+	FunctionCallChoice,
+	FunctionDefinition,
+	GeminiRequestOptions,
+	ModelInfo,
+	OpenAIModel,
+	TokenCountResponse,
+	Tool,
+	ToolChoice
+} from "../types";
+import { DEFAULT_MODEL, getAllModelIds, getModelInfo, isValidModel, resolveModelId } from "../models";
+import { CONTEXT_TRUNCATION_HEADER, FALLBACK_TENANT_HEADER, OPENAI_MODEL_OWNER, SESSION_ID_HEADER } from "../config";
 import { DEFAULT_THINKING_BUDGET } from "../constants";
-// REMOVED: import { AuthManager } from "../auth";
-// REMOVED: import { GeminiApiClient } from "../gemini-client";
-import { initializeClientPool, getNextClient, getClientStatuses } from "../client-pool"; // ADDED
+import { initializeClientPool, getClientStatuses } from "../client-pool";
 import { createOpenAIStreamTransformer } from "../stream-transformer";
-import KeyManager from "../key-manager";
-import KeyRotator from "../key-rotator";
+import { getServedModelHeaders, peekModelSwitch } from "../utils/served-model-utils";
+import { RequestDispatcher } from "../helpers/request-dispatcher";
+import { SessionAffinityHelper } from "../helpers/session-affinity";
+import { StructuredOutputHelper } from "../helpers/structured-output";
+import { ContextWindowHelper } from "../helpers/context-window";
+import { toOpenAIFinishReason } from "../utils/finish-reason-utils";
+import { validateContentModalities } from "../utils/content-utils";
+import { estimateConversationTokens } from "../utils/token-utils";
 
 /**
  * OpenAI-compatible API routes for models and chat completions.
  */
 export const OpenAIRoute = new Hono<{ Bindings: Env }>();
 
-// List available models
-OpenAIRoute.get("/models", async (c) => {
-	const modelData = getAllModelIds().map((modelId) => ({
+function toolsFromFunctions(functions: FunctionDefinition[] | undefined): Tool[] | undefined {
+	return functions?.map((fn) => ({ type: "function", function: fn }));
+}
+
+function toolChoiceFromFunctionCall(functionCall: FunctionCallChoice | undefined): ToolChoice | undefined {
+	if (typeof functionCall === "object") {
+		return { type: "function", function: { name: functionCall.name } };
+	}
+	return functionCall;
+}
+
+/**
+ * Rewrites deprecated function calling turns (assistant function_call and "function" role results)
+ * into tool_calls and tool messages so they convert like regular tool turns.
+ */
+function normalizeLegacyFunctionMessages(messages: ChatMessage[]): ChatMessage[] {
+	let lastCallId: string | undefined;
+	return messages.map((msg) => {
+		if (msg.role === "assistant" && msg.function_call && !msg.tool_calls) {
+			lastCallId = `call_${crypto.randomUUID()}`;
+			return {
+				role: "assistant",
+				content: msg.content ?? "",
+				tool_calls: [{ id: lastCallId, type: "function", function: msg.function_call }]
+			};
+		}
+		if (msg.role === "function") {
+			// Without a preceding call the function name still identifies the response
+			return { role: "tool", tool_call_id: lastCallId ?? msg.name, content: msg.content };
+		}
+		return msg;
+	});
+}
+
+/**
+ * Extracts the system prompt and the user/assistant messages; every system and developer message is kept, in order.
+ */
+function splitSystemMessages(messages: ChatMessage[]): { systemPrompt: string; otherMessages: ChatMessage[] } {
+	const systemParts: string[] = [];
+	const otherMessages = messages.filter((msg) => {
+		if (msg.role === "system" || msg.role === "developer") {
+			// Handle system messages with both string and array content
+			if (typeof msg.content === "string") {
+				systemParts.push(msg.content);
+			} else if (Array.isArray(msg.content)) {
+				// For system messages, only extract text content
+				const textContent = msg.content
+					.filter((part) => part.type === "text")
+					.map((part) => part.text || "")
+					.join(" ");
+				systemParts.push(textContent);
+			}
+			return false;
+		}
+		return true;
+	});
+	return { systemPrompt: systemParts.filter(Boolean).join("\n\n"), otherMessages };
+}
+
+/**
+ * Builds an OpenAI model object extended with the model's metadata and current availability.
+ */
+function toOpenAIModel(modelId: string, info: ModelInfo, available: boolean): OpenAIModel {
+	const input = ["text"];
+	if (info.supportsImages) input.push("image");
+	if (info.supportsAudio) input.push("audio");
+	if (info.supportsPdf) input.push("pdf");
+
+	return {
 		id: modelId,
 		object: "model",
-		created: Math.floor(Date.now() / 1000),
-		owned_by: OPENAI_MODEL_OWNER
-	}));
+		created: info.created,
+		owned_by: OPENAI_MODEL_OWNER,
+		description: info.description,
+		context_window: info.contextWindow,
+		max_output_tokens: info.maxTokens,
+		modalities: { input, output: ["text"] },
+		thinking: info.thinking,
+		pricing: { input: info.inputPrice, output: info.outputPrice },
+		available
+	};
+}
+
+// List available models
+OpenAIRoute.get("/models", async (c) => {
+	const modelIds = getAllModelIds();
+	const { servableModels } = await RequestDispatcher.getAvailability(c.env, modelIds);
+	const modelData = modelIds.map((modelId) => toOpenAIModel(modelId, getModelInfo(modelId)!, servableModels[modelId]));
 
 	return c.json({
 		object: "list",
@@ -30,13 +127,25 @@ OpenAIRoute.get("/models", async (c) => {
 	});
 });
 
+// Retrieve a single model
+OpenAIRoute.get("/models/:model", async (c) => {
+	const model = resolveModelId(c.req.param("model"));
+	if (!isValidModel(model)) {
+		return c.json({ error: `Model '${model}' not found. Available models: ${getAllModelIds().join(", ")}` }, 404);
+	}
+
+	const { servableModels } = await RequestDispatcher.getAvailability(c.env, [model]);
+	return c.json(toOpenAIModel(model, getModelInfo(model)!, servableModels[model]));
+});
+
 // Chat completions endpoint
 OpenAIRoute.post("/chat/completions", async (c) => {
 	try {
 		console.log("Chat completions request received");
 		const body = await c.req.json<ChatCompletionRequest>();
-		const model = body.model || DEFAULT_MODEL;
-		const messages = body.messages || [];
+		// Aliases such as gpt-4o resolve to the Gemini model that serves them, which is what responses report
+		const model = resolveModelId(body.model || DEFAULT_MODEL);
+		const messages = normalizeLegacyFunctionMessages(body.messages || []);
 		// OpenAI API compatibility: stream defaults to true unless explicitly set to false
 		const stream = body.stream !== false;
 
@@ -54,6 +163,7 @@ OpenAIRoute.post("/chat/completions", async (c) => {
 			presence_penalty: body.presence_penalty,
 			frequency_penalty: body.frequency_penalty,
 			seed: body.seed,
+			n: body.n,
 			response_format: body.response_format
 		};
 
@@ -80,8 +190,10 @@ OpenAIRoute.post("/chat/completions", async (c) => {
 			}
 		}
 
-		const tools = body.tools;
-		const tool_choice = body.tool_choice;
+		// Requests using the deprecated functions field get function_call shaped responses back
+		const legacyFunctionCall = !body.tools && !!body.functions;
+		const tools = body.tools ?? toolsFromFunctions(body.functions);
+		const tool_choice = body.tool_choice ?? toolChoiceFromFunctionCall(body.function_call);
 
 		console.log("Request body parsed:", {
 			model,
@@ -97,8 +209,16 @@ OpenAIRoute.post("/chat/completions", async (c) => {
 			return c.json({ error: "messages is a required field" }, 400);
 		}
 
+		if (body.n !== undefined && (!Number.isInteger(body.n) || body.n < 1)) {
+			return c.json({ error: "n must be a positive integer" }, 400);
+		}
+
+		if (body.response_format?.type === "json_schema" && !body.response_format.json_schema?.name) {
+			return c.json({ error: "response_format.json_schema.name is required" }, 400);
+		}
+
 		// Validate model
-		if (!(model in geminiCliModels)) {
+		if (!isValidModel(model)) {
 			return c.json(
 				{
 					error: `Model '${model}' not found. Available models: ${getAllModelIds().join(", ")}`
@@ -115,7 +235,7 @@ OpenAIRoute.post("/chat/completions", async (c) => {
 			return false;
 		});
 
-		if (hasImages && !geminiCliModels[model].supportsImages) {
+		if (hasImages && !getModelInfo(model)?.supportsImages) {
 			return c.json(
 				{
 					error: `Model '${model}' does not support image inputs. Please use a vision-capable model like gemini-2.5-pro or gemini-2.5-flash.`
@@ -124,103 +244,83 @@ OpenAIRoute.post("/chat/completions", async (c) => {
 			);
 		}
 
-		// Extract system prompt and user/assistant messages
-		let systemPrompt = "";
-		const otherMessages = messages.filter((msg) => {
-			if (msg.role === "system") {
-				// Handle system messages with both string and array content
-				if (typeof msg.content === "string") {
-					systemPrompt = msg.content;
-				} else if (Array.isArray(msg.content)) {
-					// For system messages, only extract text content
-					const textContent = msg.content
-						.filter((part) => part.type === "text")
-						.map((part) => part.text || "")
-						.join(" ");
-					systemPrompt = textContent;
-				}
-				return false;
-			}
-			return true;
-		});
+		// Audio and PDF parts are checked against the model's capability flags
+		const modalityError = validateContentModalities(messages, model, getModelInfo(model)!);
+		if (modalityError) {
+			return c.json({ error: modalityError }, 400);
+		}
 
-		// Initialize the client pool (it's safe to call this on every request)
+		const { systemPrompt, otherMessages } = splitSystemMessages(messages);
+
+		// Estimate the prompt size before dispatch; older turns are only dropped when the client opts in
+		const fitted = ContextWindowHelper.fit(
+			model,
+			systemPrompt,
+			otherMessages,
+			body.max_tokens,
+			ContextWindowHelper.isTruncationRequested(c.req.header(CONTEXT_TRUNCATION_HEADER))
+		);
+		if (fitted.error) {
+			return c.json(
+				{
+					error: {
+						message: fitted.error,
+						type: "invalid_request_error",
+						param: "messages",
+						code: "context_length_exceeded"
+					}
+				},
+				400
+			);
+		}
+		const conversation = fitted.messages;
+
+		// Initialize the client pool and optional KeyRotator, and pick the client for this request
+		let dispatcher: RequestDispatcher;
 		try {
-			await initializeClientPool(c.env);
+			// The session prefix comes from the messages as sent, since truncation drops the oldest turns
+			const session = await SessionAffinityHelper.fromRequest(c.env, c.req.header(SESSION_ID_HEADER), body.user, {
+				systemPrompt,
+				messages: otherMessages
+			});
+			dispatcher = await RequestDispatcher.create(c.env, session);
 		} catch (err) {
 			return c.json({ error: (err as Error).message }, 500);
 		}
-	
-		// Optionally initialize KeyManager/KeyRotator if GEMINI_KEYS or GEMINI_KEYS_FILE is provided
-		let keyRotator: KeyRotator | null = null;
-		try {
-			// eslint-disable-next-line @typescript-eslint/no-explicit-any
-			const envKeys = (c.env as any).GEMINI_KEYS as string | undefined;
-			// eslint-disable-next-line @typescript-eslint/no-explicit-any
-			const keysFile = (c.env as any).GEMINI_KEYS_FILE as string | undefined;
-			if (envKeys || keysFile) {
-				const km = new KeyManager({ kv: c.env.GEMINI_CLI_LOADBALANCE, kvKey: "gemini_key_rotator:cooldown_data_v1" });
-				if (envKeys) {
-					const keys = envKeys.split(",").map((s) => s.trim()).filter(Boolean);
-					if (keys.length) km.setKeys(keys);
-				}
-				if (keysFile) {
-					// loadKeysFromFile is async and will populate keys; await it to ensure availability
-					await km.loadKeysFromFile(keysFile);
-				}
-				keyRotator = new KeyRotator(km);
-				console.log("Initialized KeyRotator with", km.getTotalKeysCount(), "keys");
-			}
-		} catch (krErr) {
-			console.error("Failed to initialize KeyRotator:", krErr);
-			// proceed without rotator
-			keyRotator = null;
-		}
-	
-		// Get the next client from the pool (fallback for when KeyRotator is not configured)
-		const geminiClient = getNextClient();
+
+		const geminiOptions: GeminiRequestOptions = {
+			includeReasoning,
+			thinkingBudget,
+			tools,
+			tool_choice,
+			...generationOptions,
+			allowFallback: body.allow_fallback,
+			tenant: c.req.header(FALLBACK_TENANT_HEADER)
+		};
 
 		if (stream) {
 			// Streaming response
+			console.log("Starting stream generation");
+			// Wait for the first chunk so a fallback model can be reported in the headers and chunks
+			const { stream: geminiStream, modelSwitch, error } = await peekModelSwitch(
+				dispatcher.streamContent(model, systemPrompt, conversation, geminiOptions)
+			);
+			// Blocked prompts fail before any output, so they can still be reported as client errors
+			if ((error as { status?: number } | undefined)?.status === 400) {
+				return c.json({ error: (error as Error).message }, 400);
+			}
 			const { readable, writable } = new TransformStream();
 			const writer = writable.getWriter();
-			const openAITransformer = createOpenAIStreamTransformer(model);
+			const openAITransformer = createOpenAIStreamTransformer(
+				modelSwitch?.servedModel ?? model,
+				legacyFunctionCall,
+				dispatcher.getSystemFingerprint()
+			);
 			const openAIStream = readable.pipeThrough(openAITransformer);
 
 			// Asynchronously pipe data from Gemini to transformer
 			(async () => {
 				try {
-					console.log("Starting stream generation");
-					let geminiStream;
-					if (keyRotator) {
-						// Use KeyRotator's streaming-aware rotation and delegate actual network calls
-						geminiStream = keyRotator.streamContent(
-							model,
-							systemPrompt,
-							otherMessages,
-							(apiKey, _model, _systemPrompt, _messages, _options) =>
-								// Delegate to a pool client to perform the request using the raw apiKey
-								// Note: getNextClient() is safe because the pool is initialized above.
-								// We bind the call so it returns the AsyncGenerator expected by KeyRotator.
-								geminiClient.streamContentWithApiKey(apiKey, _model, _systemPrompt as string, _messages as ChatMessage[], _options),
-							{
-								includeReasoning,
-								thinkingBudget,
-								tools,
-								tool_choice,
-								...generationOptions
-							}
-						);
-					} else {
-						geminiStream = geminiClient.streamContent(model, systemPrompt, otherMessages, {
-							includeReasoning,
-							thinkingBudget,
-							tools,
-							tool_choice,
-							...generationOptions
-						});
-					}
-
 					for await (const chunk of geminiStream) {
 						await writer.write(chunk);
 					}
@@ -247,7 +347,8 @@ OpenAIRoute.post("/chat/completions", async (c) => {
 					Connection: "keep-alive",
 					"Access-Control-Allow-Origin": "*",
 					"Access-Control-Allow-Methods": "GET, POST, OPTIONS",
-					"Access-Control-Allow-Headers": "Content-Type, Authorization"
+					"Access-Control-Allow-Headers": "Content-Type, Authorization",
+					...getServedModelHeaders(model, modelSwitch)
 				}
 			});
 		} else {
@@ -255,57 +356,46 @@ OpenAIRoute.post("/chat/completions", async (c) => {
 			try {
 				console.log("Starting non-streaming completion");
 	
-				let completion;
-	
-				if (keyRotator) {
-					// Minimal providerCall that delegates to the existing gemini client.
-					// Note: providerCall receives an apiKey but this minimal implementation
-					// uses the configured client pool (geminiClient) to perform the request.
-					const providerCall = async (
-						apiKey: string,
-						_model: string,
-						_systemPrompt: string,
-						_messages: unknown[],
-						_options?: Record<string, unknown>
-					) => {
-						// Use the raw API key path on the Gemini client so KeyRotator can rotate across keys.
-						// This calls the client method that accepts a raw apiKey and performs the network request.
-						return await geminiClient.getCompletionWithApiKey(apiKey, _model, _systemPrompt as string, _messages as ChatMessage[], _options);
-					};
-	
-					completion = await keyRotator.generateContent(model, systemPrompt, otherMessages, providerCall, {
-						includeReasoning,
-						thinkingBudget,
-						tools,
-						tool_choice,
-						...generationOptions
-					});
-				} else {
-					completion = await geminiClient.getCompletion(model, systemPrompt, otherMessages, {
-						includeReasoning,
-						thinkingBudget,
-						tools,
-						tool_choice,
-						...generationOptions
-					});
-				}
-	
+				// Validates json_schema outputs and re-asks in strict mode; a plain completion otherwise
+				const completion = await StructuredOutputHelper.getCompletion(
+					dispatcher,
+					model,
+					systemPrompt,
+					conversation,
+					geminiOptions,
+					StructuredOutputHelper.getMaxRepairs(c.env)
+				);
+				const candidates = completion.candidates ?? [
+					{
+						index: 0,
+						content: completion.content,
+						tool_calls: completion.tool_calls,
+						finish_reason: completion.finish_reason
+					}
+				];
+
 				const response: ChatCompletionResponse = {
 					id: `chatcmpl-${crypto.randomUUID()}`,
 					object: "chat.completion",
 					created: Math.floor(Date.now() / 1000),
-					model: model,
-					choices: [
-						{
-							index: 0,
-							message: {
-								role: "assistant",
-								content: completion.content,
-								tool_calls: completion.tool_calls as ToolCall[] | undefined
-							},
-							finish_reason: completion.tool_calls && completion.tool_calls.length > 0 ? "tool_calls" : "stop"
-						}
-					]
+					model: completion.modelSwitch?.servedModel ?? model,
+					system_fingerprint: dispatcher.getSystemFingerprint(),
+					choices: candidates.map((candidate) => ({
+						index: candidate.index,
+						message: {
+							role: "assistant",
+							content: candidate.content,
+							// The legacy shape carries a single call; extra parallel calls are dropped
+							...(legacyFunctionCall
+								? { function_call: candidate.tool_calls?.[0]?.function }
+								: { tool_calls: candidate.tool_calls })
+						},
+						finish_reason: toOpenAIFinishReason(
+							candidate.finish_reason,
+							!!candidate.tool_calls && candidate.tool_calls.length > 0,
+							legacyFunctionCall
+						)
+					}))
 				};
 	
 				// Add usage information if available (guard optional fields)
@@ -320,13 +410,63 @@ OpenAIRoute.post("/chat/completions", async (c) => {
 				}
 	
 				console.log("Non-streaming completion successful");
-				return c.json(response);
+				return c.json(response, 200, getServedModelHeaders(model, completion.modelSwitch));
 			} catch (completionError: unknown) {
 				const errorMessage = completionError instanceof Error ? completionError.message : String(completionError);
 				console.error("Completion error:", errorMessage);
-				return c.json({ error: errorMessage }, 500);
+				const { status, validationErrors } = completionError as { status?: number; validationErrors?: string[] };
+				// Strict json_schema outputs that still don't validate are the upstream model's failure
+				if (status === 502 && validationErrors) {
+					return c.json({ error: errorMessage, validation_errors: validationErrors }, 502);
+				}
+				// Blocked prompts are reported as client errors
+				return c.json({ error: errorMessage }, status === 400 ? 400 : 500);
+			}
+		}
+	} catch (e: unknown) {
+		const errorMessage = e instanceof Error ? e.message : String(e);
+		console.error("Top-level error:", e);
+		return c.json({ error: errorMessage }, 500);
+	}
+});
+
+// Token counting endpoint: counts the prompt of a chat completions request without running it
+OpenAIRoute.post("/chat/completions/count_tokens", async (c) => {
+	try {
+		const body = await c.req.json<ChatCompletionRequest>();
+		const model = resolveModelId(body.model || DEFAULT_MODEL);
+		const messages = normalizeLegacyFunctionMessages(body.messages || []);
+
+		if (!messages.length) {
+			return c.json({ error: "messages is a required field" }, 400);
+		}
+		if (!isValidModel(model)) {
+			return c.json({ error: `Model '${model}' not found. Available models: ${getAllModelIds().join(", ")}` }, 400);
+		}
+
+		const { systemPrompt, otherMessages } = splitSystemMessages(messages);
+		const response: TokenCountResponse = {
+			object: "token_count",
+			model,
+			prompt_tokens: 0,
+			source: "gemini"
+		};
+
+		try {
+			const dispatcher = await RequestDispatcher.create(c.env);
+			response.prompt_tokens = await dispatcher.countTokens(model, systemPrompt, otherMessages);
+		} catch (countError: unknown) {
+			if ((countError as { status?: number }).status === 400) {
+				return c.json({ error: (countError as Error).message }, 400);
 			}
+			// Budgeting callers still get a usable number when upstream is unavailable
+			const errorMessage = countError instanceof Error ? countError.message : String(countError);
+			console.warn("Token count failed upstream, using a local estimate:", errorMessage);
+			response.prompt_tokens = estimateConversationTokens(systemPrompt, otherMessages);
+			response.source = "estimate";
 		}
+
+		return c.json(response);
 	} catch (e: unknown) {
 		const errorMessage = e instanceof Error ? e.message : String(e);
 		console.error("Top-level error:", e);
@@ -366,6 +506,7 @@ OpenAIRoute.get("/admin/dashboard", async (c) => {
         tr:hover { background-color: #e9e9e9; }
         .status-valid { color: green; font-weight: bold; }
         .status-invalid { color: red; font-weight: bold; }
+        .status-probing { color: #d68910; font-weight: bold; }
         .refresh-button {
             background-color: #28a745;
             color: white;
@@ -388,10 +529,12 @@ OpenAIRoute.get("/admin/dashboard", async (c) => {
         <thead>
             <tr>
                 <th>Index</th>
+                <th>Client</th>
                 <th>Token (Last 8 Chars)</th>
                 <th>Error Count</th>
-                <th>Status</th>
-                <th>Invalidated At</th>
+                <th>Circuit</th>
+                <th>Opened At</th>
+                <th>Retry At</th>
             </tr>
         </thead>
         <tbody>
@@ -409,19 +552,24 @@ OpenAIRoute.get("/admin/dashboard", async (c) => {
 
                 statuses.forEach(client => {
                     const row = tableBody.insertRow();
-                    const statusClass = client.isValid ? 'status-valid' : 'status-invalid';
-                    const invalidatedAt = client.invalidatedAt ? new Date(client.invalidatedAt).toLocaleString() : 'N/A';
+                    const circuit = client.circuit;
+                    const statusClass = circuit.state === 'closed' ? 'status-valid' : circuit.state === 'open' ? 'status-invalid' : 'status-probing';
+                    const failure = circuit.lastFailureType && circuit.state !== 'closed' ? \` (\${circuit.lastFailureType})\` : '';
+                    const openedAt = circuit.openedAt ? new Date(circuit.openedAt).toLocaleString() : 'N/A';
+                    const retryAt = circuit.retryAt && circuit.state === 'open' ? new Date(circuit.retryAt).toLocaleString() : 'N/A';
 
                     row.insertCell().textContent = client.index;
+                    row.insertCell().textContent = client.id;
                     row.insertCell().textContent = client.last8CharsOfToken;
                     row.insertCell().textContent = client.errorCount;
-                    row.insertCell().innerHTML = \`<span class="\${statusClass}">\${client.isValid ? 'Valid' : 'Invalid'}</span>\`;
-                    row.insertCell().textContent = invalidatedAt;
+                    row.insertCell().innerHTML = \`<span class="\${statusClass}">\${circuit.state}\${failure}</span>\`;
+                    row.insertCell().textContent = openedAt;
+                    row.insertCell().textContent = retryAt;
                 });
             } catch (error) {
                 console.error('Error fetching client statuses:', error);
                 const tableBody = document.getElementById('clientStatusTable').getElementsByTagName('tbody')[0];
-                tableBody.innerHTML = '<tr><td colspan="5" style="color: red;">Error loading data. Please check console.</td></tr>';
+                tableBody.innerHTML = '<tr><td colspan="7" style="color: red;">Error loading data. Please check console.</td></tr>';
             }
         }
 
@@ -0,0 +1,286 @@
+import { Hono } from "hono";
+import {
+	Env,
+	ChatMessage,
+	GeminiRequestOptions,
+	MessageContent,
+	ResponsesInputContent,
+	ResponsesInputItem,
+	ResponsesRequest,
+	ResponsesToolChoice,
+	ResponseFormat,
+	Tool,
+	ToolChoice
+} from "../types";
+import { DEFAULT_MODEL, getAllModelIds, getModelInfo, isValidModel, resolveModelId } from "../models";
+import { DEFAULT_THINKING_BUDGET } from "../constants";
+import { createResponsesStreamTransformer } from "../stream-transformer";
+import { CONTEXT_TRUNCATION_HEADER, FALLBACK_TENANT_HEADER, SESSION_ID_HEADER } from "../config";
+import { RequestDispatcher } from "../helpers/request-dispatcher";
+import { SessionAffinityHelper } from "../helpers/session-affinity";
+import { ContextWindowHelper } from "../helpers/context-window";
+import { ResponsesOutputBuilder } from "../helpers/responses-builder";
+import { GenerationConfigValidator } from "../helpers/generation-config-validator";
+import { getServedModelHeaders, peekModelSwitch } from "../utils/served-model-utils";
+
+/**
+ * OpenAI Responses API compatible routes.
+ */
+export const ResponsesRoute = new Hono<{ Bindings: Env }>();
+
+function contentToParts(content: string | ResponsesInputContent[]): string | MessageContent[] {
+	if (typeof content === "string") return content;
+	const parts: MessageContent[] = [];
+	for (const part of content) {
+		if (part.type === "input_text" || part.type === "output_text") {
+			parts.push({ type: "text", text: part.text });
+		} else if (part.type === "input_image" && part.image_url) {
+			parts.push({ type: "image_url", image_url: { url: part.image_url, detail: part.detail } });
+		}
+	}
+	return parts;
+}
+
+function contentToText(content: string | ResponsesInputContent[]): string {
+	if (typeof content === "string") return content;
+	return content
+		.map((part) => (part.type === "input_text" || part.type === "output_text" ? part.text : ""))
+		.filter(Boolean)
+		.join("\n");
+}
+
+/**
+ * Converts Responses API input items into ChatMessages plus the system prompt.
+ * Consecutive function_call items are grouped into a single assistant turn.
+ */
+function toChatMessages(
+	input: string | ResponsesInputItem[],
+	instructions?: string
+): { systemPrompt: string; messages: ChatMessage[] } {
+	const systemParts: string[] = instructions ? [instructions] : [];
+	const messages: ChatMessage[] = [];
+
+	if (typeof input === "string") {
+		return { systemPrompt: systemParts.join("\n\n"), messages: [{ role: "user", content: input }] };
+	}
+
+	for (const item of input) {
+		if (item.type === "function_call") {
+			const toolCall = {
+				id: item.call_id,
+				type: "function" as const,
+				function: { name: item.name, arguments: item.arguments }
+			};
+			const last = messages[messages.length - 1];
+			if (last?.role === "assistant" && last.tool_calls) {
+				last.tool_calls.push(toolCall);
+			} else {
+				messages.push({ role: "assistant", content: "", tool_calls: [toolCall] });
+			}
+		} else if (item.type === "function_call_output") {
+			messages.push({ role: "tool", tool_call_id: item.call_id, content: item.output });
+		} else if (item.type === "reasoning") {
+			// Reasoning items from previous turns are not replayed to Gemini
+			continue;
+		} else if (item.role === "system" || item.role === "developer") {
+			systemParts.push(contentToText(item.content));
+		} else {
+			messages.push({ role: item.role, content: contentToParts(item.content) });
+		}
+	}
+
+	return { systemPrompt: systemParts.join("\n\n"), messages };
+}
+
+function toTools(body: ResponsesRequest): Tool[] | undefined {
+	const functionTools = (body.tools || []).filter((tool) => tool.type === "function");
+	if (functionTools.length === 0) return undefined;
+	return functionTools.map((tool) => ({
+		type: "function",
+		function: {
+			name: tool.name,
+			description: tool.description,
+			parameters: tool.parameters
+		}
+	}));
+}
+
+function toToolChoice(choice: ResponsesToolChoice | undefined): ToolChoice | undefined {
+	if (!choice) return undefined;
+	if (typeof choice === "object") {
+		return { type: "function", function: { name: choice.name } };
+	}
+	return choice;
+}
+
+function toResponseFormat(format: NonNullable<ResponsesRequest["text"]>["format"]): ResponseFormat | undefined {
+	if (!format || format.type === "text") return undefined;
+	if (format.type === "json_schema") {
+		// The Responses API flattens the json_schema fields onto the format object
+		const { name, description, schema, strict } = format;
+		return { type: "json_schema", json_schema: { name, description, schema, strict } };
+	}
+	return { type: "json_object" };
+}
+
+// Responses endpoint
+ResponsesRoute.post("/responses", async (c) => {
+	try {
+		console.log("Responses request received");
+		const body = await c.req.json<ResponsesRequest>();
+		const model = resolveModelId(body.model || DEFAULT_MODEL);
+		const stream = body.stream === true;
+
+		if (body.input === undefined || (Array.isArray(body.input) && body.input.length === 0)) {
+			return c.json({ error: "input is a required field" }, 400);
+		}
+
+		if (body.previous_response_id) {
+			return c.json(
+				{ error: "previous_response_id is not supported; this worker does not store responses. Send the full input." },
+				400
+			);
+		}
+
+		if (!isValidModel(model)) {
+			return c.json(
+				{
+					error: `Model '${model}' not found. Available models: ${getAllModelIds().join(", ")}`
+				},
+				400
+			);
+		}
+
+		const { systemPrompt, messages } = toChatMessages(body.input, body.instructions);
+		if (messages.length === 0) {
+			return c.json({ error: "input must contain at least one user message" }, 400);
+		}
+
+		const hasImages = messages.some(
+			(msg) => Array.isArray(msg.content) && msg.content.some((content) => content.type === "image_url")
+		);
+		if (hasImages && !getModelInfo(model)?.supportsImages) {
+			return c.json({ error: `Model '${model}' does not support image inputs.` }, 400);
+		}
+
+		// Map reasoning effort onto a thinking budget; "minimal" is the closest to "low"
+		const effort = body.reasoning?.effort === "minimal" ? "low" : body.reasoning?.effort;
+		const includeReasoning = !!effort && effort !== "none";
+		const thinkingBudget = effort
+			? GenerationConfigValidator.mapEffortToThinkingBudget(effort, model)
+			: DEFAULT_THINKING_BUDGET;
+
+		const format = body.text?.format;
+		const geminiOptions: GeminiRequestOptions = {
+			includeReasoning,
+			thinkingBudget,
+			tools: toTools(body),
+			tool_choice: toToolChoice(body.tool_choice),
+			max_tokens: body.max_output_tokens,
+			temperature: body.temperature,
+			top_p: body.top_p,
+			response_format: toResponseFormat(format),
+			allowFallback: body.allow_fallback,
+			tenant: c.req.header(FALLBACK_TENANT_HEADER)
+		};
+
+		console.log("Responses request parsed:", {
+			model,
+			messageCount: messages.length,
+			stream,
+			includeReasoning,
+			thinkingBudget,
+			toolCount: geminiOptions.tools?.length ?? 0
+		});
+
+		// truncation: "auto" drops older turns to fit the context window, as in the OpenAI Responses API
+		const fitted = ContextWindowHelper.fit(
+			model,
+			systemPrompt,
+			messages,
+			body.max_output_tokens,
+			ContextWindowHelper.isTruncationRequested(c.req.header(CONTEXT_TRUNCATION_HEADER), body.truncation)
+		);
+		if (fitted.error) {
+			return c.json({ error: fitted.error }, 400);
+		}
+		const conversation = fitted.messages;
+
+		let dispatcher: RequestDispatcher;
+		try {
+			const session = await SessionAffinityHelper.fromRequest(c.env, c.req.header(SESSION_ID_HEADER), body.user, {
+				systemPrompt,
+				messages
+			});
+			dispatcher = await RequestDispatcher.create(c.env, session);
+		} catch (err) {
+			return c.json({ error: (err as Error).message }, 500);
+		}
+
+		// Wait for the first chunk so a fallback model is reported in the response and headers
+		const {
+			stream: chunks,
+			modelSwitch,
+			error
+		} = await peekModelSwitch(dispatcher.streamContent(model, systemPrompt, conversation, geminiOptions));
+		// Blocked prompts fail before any output, so they can still be reported as client errors
+		if ((error as { status?: number } | undefined)?.status === 400) {
+			return c.json({ error: (error as Error).message }, 400);
+		}
+		const builder = new ResponsesOutputBuilder(
+			modelSwitch?.servedModel ?? model,
+			body.instructions ?? null,
+			body.metadata
+		);
+
+		if (stream) {
+			const { readable, writable } = new TransformStream();
+			const writer = writable.getWriter();
+			const responsesStream = readable.pipeThrough(createResponsesStreamTransformer(builder));
+
+			(async () => {
+				try {
+					for await (const chunk of chunks) {
+						await writer.write(chunk);
+					}
+					await writer.close();
+				} catch (streamError: unknown) {
+					const errorMessage = streamError instanceof Error ? streamError.message : String(streamError);
+					console.error("Responses stream error:", errorMessage);
+					await writer.write({
+						type: "text",
+						data: `Error: ${errorMessage}`
+					});
+					await writer.close();
+				}
+			})();
+
+			return new Response(responsesStream, {
+				headers: {
+					"Content-Type": "text/event-stream",
+					"Cache-Control": "no-cache",
+					Connection: "keep-alive",
+					"Access-Control-Allow-Origin": "*",
+					...getServedModelHeaders(model, modelSwitch)
+				}
+			});
+		}
+
+		try {
+			for await (const chunk of chunks) {
+				builder.push(chunk);
+			}
+			builder.finish();
+			return c.json(builder.getResponse(), 200, getServedModelHeaders(model, modelSwitch));
+		} catch (completionError: unknown) {
+			const errorMessage = completionError instanceof Error ? completionError.message : String(completionError);
+			console.error("Responses completion error:", errorMessage);
+			const status = (completionError as { status?: number }).status === 400 ? 400 : 500;
+			return c.json({ error: errorMessage }, status);
+		}
+	} catch (e: unknown) {
+		const errorMessage = e instanceof Error ? e.message : String(e);
+		console.error("Top-level error:", e);
+		return c.json({ error: errorMessage }, 500);
+	}
+});
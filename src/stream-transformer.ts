@@ -1,5 +1,7 @@
-import { StreamChunk, ReasoningData, GeminiFunctionCall, UsageData } from "./types";
-import { OPENAI_CHAT_COMPLETION_OBJECT } from "./config";
+import { StreamChunk, ReasoningData, GeminiFunctionCall, UsageData, OllamaToolCall } from "./types";
+import { OPENAI_CHAT_COMPLETION_OBJECT, OPENAI_TEXT_COMPLETION_OBJECT } from "./config";
+import { ResponsesOutputBuilder, ResponsesStreamEvent } from "./helpers/responses-builder";
+import { toAnthropicStopReason, toOllamaDoneReason, toOpenAIFinishReason } from "./utils/finish-reason-utils";
 
 // OpenAI API interfaces
 interface OpenAIToolCall {
@@ -26,6 +28,7 @@ interface OpenAIDelta {
 	reasoning?: string;
 	reasoning_content?: string | null;
 	tool_calls?: OpenAIToolCall[];
+	function_call?: { name: string; arguments: string };
 }
 
 interface OpenAIChunk {
@@ -33,6 +36,7 @@ interface OpenAIChunk {
 	object: string;
 	created: number;
 	model: string;
+	system_fingerprint?: string;
 	choices: OpenAIChoice[];
 	usage?: null;
 }
@@ -54,6 +58,7 @@ interface OpenAIFinalChunk {
 	object: string;
 	created: number;
 	model: string;
+	system_fingerprint?: string;
 	choices: OpenAIFinalChoice[];
 	usage?: OpenAIUsage;
 }
@@ -74,25 +79,38 @@ function isUsageData(data: unknown): data is UsageData {
 /**
  * Creates a TransformStream to convert Gemini's output chunks
  * into OpenAI-compatible server-sent events.
+ * With legacyFunctionCall, tool calls are sent as a single deprecated function_call delta.
+ * systemFingerprint identifies the credential route and is repeated on every chunk.
  */
-export function createOpenAIStreamTransformer(model: string): TransformStream<StreamChunk, Uint8Array> {
+export function createOpenAIStreamTransformer(
+	model: string,
+	legacyFunctionCall: boolean = false,
+	systemFingerprint?: string
+): TransformStream<StreamChunk, Uint8Array> {
 	const chatID = `chatcmpl-${crypto.randomUUID()}`;
 	const creationTime = Math.floor(Date.now() / 1000);
 	const encoder = new TextEncoder();
-	let firstChunk = true;
-	let toolCallId: string | null = null;
-	let toolCallName: string | null = null;
+	// Per-choice state, keyed by candidate index (n > 1 produces several choices)
+	const seenChoices = new Set<number>();
+	const startedChoices = new Set<number>();
+	const toolCallCounts = new Map<number, number>(); // Tool calls emitted so far per choice
+	const finishReasons = new Map<number, string>();
 	let usageData: UsageData | undefined;
 
 	return new TransformStream({
 		transform(chunk, controller) {
+			const index = chunk.index ?? 0;
+			if (chunk.type !== "usage" && chunk.type !== "model_switch") {
+				seenChoices.add(index);
+			}
+
 			if (chunk.type === "text" && chunk.data && typeof chunk.data === "string") {
 				const delta: OpenAIDelta = {
 					content: chunk.data
 				};
-				if (firstChunk) {
+				if (!startedChoices.has(index)) {
 					delta.role = "assistant";
-					firstChunk = false;
+					startedChoices.add(index);
 				}
 
 				const openAIChunk: OpenAIChunk = {
@@ -100,9 +118,10 @@ export function createOpenAIStreamTransformer(model: string): TransformStream<St
 					object: OPENAI_CHAT_COMPLETION_OBJECT,
 					created: creationTime,
 					model: model,
+					system_fingerprint: systemFingerprint,
 					choices: [
 						{
-							index: 0,
+							index,
 							delta: delta,
 							finish_reason: null,
 							logprobs: null,
@@ -118,9 +137,9 @@ export function createOpenAIStreamTransformer(model: string): TransformStream<St
 					content: chunk.data,
 					reasoning_content: null
 				};
-				if (firstChunk) {
+				if (!startedChoices.has(index)) {
 					delta.role = "assistant";
-					firstChunk = false;
+					startedChoices.add(index);
 				}
 
 				const openAIChunk: OpenAIChunk = {
@@ -128,9 +147,10 @@ export function createOpenAIStreamTransformer(model: string): TransformStream<St
 					object: OPENAI_CHAT_COMPLETION_OBJECT,
 					created: creationTime,
 					model: model,
+					system_fingerprint: systemFingerprint,
 					choices: [
 						{
-							index: 0,
+							index,
 							delta: delta,
 							finish_reason: null,
 							logprobs: null,
@@ -152,9 +172,10 @@ export function createOpenAIStreamTransformer(model: string): TransformStream<St
 					object: OPENAI_CHAT_COMPLETION_OBJECT,
 					created: creationTime,
 					model: model,
+					system_fingerprint: systemFingerprint,
 					choices: [
 						{
-							index: 0,
+							index,
 							delta: delta,
 							finish_reason: null,
 							logprobs: null,
@@ -176,9 +197,10 @@ export function createOpenAIStreamTransformer(model: string): TransformStream<St
 					object: OPENAI_CHAT_COMPLETION_OBJECT,
 					created: creationTime,
 					model: model,
+					system_fingerprint: systemFingerprint,
 					choices: [
 						{
-							index: 0,
+							index,
 							delta: delta,
 							finish_reason: null,
 							logprobs: null,
@@ -190,32 +212,30 @@ export function createOpenAIStreamTransformer(model: string): TransformStream<St
 				controller.enqueue(encoder.encode(`data: ${JSON.stringify(openAIChunk)}\n\n`));
 			} else if (chunk.type === "tool_code" && isGeminiFunctionCall(chunk.data)) {
 				const toolData = chunk.data;
-				const toolCode = toolData.args;
-				const functionName = toolData.name;
-
-				if (functionName) {
-					toolCallName = functionName;
-					toolCallId = `call_${crypto.randomUUID()}`;
-				}
+				// Gemini returns complete function calls, so parallel calls each get their own index and id
+				const toolCallIndex = toolCallCounts.get(index) ?? 0;
+				toolCallCounts.set(index, toolCallIndex + 1);
+				const functionCall = { name: toolData.name, arguments: JSON.stringify(toolData.args) };
 
-				const delta: OpenAIDelta = {
-					tool_calls: [
-						{
-							index: 0,
-							id: toolCallId || "",
-							type: "function",
-							function: {
-								name: toolCallName || "",
-								arguments: JSON.stringify(toolCode)
-							}
-						}
-					]
-				};
+				// The legacy shape has room for one call per message; extra parallel calls are dropped
+				if (legacyFunctionCall && toolCallIndex > 0) return;
+				const delta: OpenAIDelta = legacyFunctionCall
+					? { function_call: functionCall }
+					: {
+							tool_calls: [
+								{
+									index: toolCallIndex,
+									id: `call_${crypto.randomUUID()}`,
+									type: "function",
+									function: functionCall
+								}
+							]
+						};
 
-				if (firstChunk) {
+				if (!startedChoices.has(index)) {
 					delta.role = "assistant";
 					delta.content = null; // Important: content must be null when tool_calls are present
-					firstChunk = false;
+					startedChoices.add(index);
 				}
 
 				const openAIChunk: OpenAIChunk = {
@@ -223,9 +243,10 @@ export function createOpenAIStreamTransformer(model: string): TransformStream<St
 					object: OPENAI_CHAT_COMPLETION_OBJECT,
 					created: creationTime,
 					model: model,
+					system_fingerprint: systemFingerprint,
 					choices: [
 						{
-							index: 0,
+							index,
 							delta: delta,
 							finish_reason: null,
 							logprobs: null,
@@ -235,20 +256,27 @@ export function createOpenAIStreamTransformer(model: string): TransformStream<St
 					usage: null
 				};
 				controller.enqueue(encoder.encode(`data: ${JSON.stringify(openAIChunk)}\n\n`));
+			} else if (chunk.type === "finish_reason" && typeof chunk.data === "string") {
+				finishReasons.set(index, chunk.data);
 			} else if (chunk.type === "usage" && isUsageData(chunk.data)) {
 				// Capture usage data to include in the final chunk
 				usageData = chunk.data;
 			}
 		},
 		flush(controller) {
-			// Send the final chunk with the finish reason and usage data if available.
-			const finishReason = toolCallId ? "tool_calls" : "stop";
+			// Send the final chunk with a finish reason per choice and usage data if available.
+			const choiceIndexes = seenChoices.size > 0 ? [...seenChoices].sort((a, b) => a - b) : [0];
 			const finalChunk: OpenAIFinalChunk = {
 				id: chatID,
 				object: OPENAI_CHAT_COMPLETION_OBJECT,
 				created: creationTime,
 				model: model,
-				choices: [{ index: 0, delta: {}, finish_reason: finishReason }]
+				system_fingerprint: systemFingerprint,
+				choices: choiceIndexes.map((index) => ({
+					index,
+					delta: {},
+					finish_reason: toOpenAIFinishReason(finishReasons.get(index), toolCallCounts.has(index), legacyFunctionCall)
+				}))
 			};
 
 			// Include usage data if available
@@ -265,3 +293,277 @@ export function createOpenAIStreamTransformer(model: string): TransformStream<St
 		}
 	});
 }
+
+// Anthropic Messages API streaming interfaces
+type AnthropicStreamBlock =
+	| { type: "text"; text: string }
+	| { type: "thinking"; thinking: string }
+	| { type: "tool_use"; id: string; name: string; input: Record<string, never> };
+
+type AnthropicStreamDelta =
+	| { type: "text_delta"; text: string }
+	| { type: "thinking_delta"; thinking: string }
+	| { type: "input_json_delta"; partial_json: string };
+
+/**
+ * Creates a TransformStream to convert Gemini's output chunks
+ * into Anthropic Messages API server-sent events.
+ */
+export function createAnthropicStreamTransformer(model: string): TransformStream<StreamChunk, Uint8Array> {
+	const messageID = `msg_${crypto.randomUUID().replace(/-/g, "")}`;
+	const encoder = new TextEncoder();
+	let blockIndex = -1;
+	let openBlockType: AnthropicStreamBlock["type"] | null = null;
+	let hasToolUse = false;
+	let finishReason: string | undefined;
+	let usageData: UsageData | undefined;
+
+	const emit = (controller: TransformStreamDefaultController<Uint8Array>, event: string, data: object) => {
+		controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify({ type: event, ...data })}\n\n`));
+	};
+
+	const closeBlock = (controller: TransformStreamDefaultController<Uint8Array>) => {
+		if (openBlockType !== null) {
+			emit(controller, "content_block_stop", { index: blockIndex });
+			openBlockType = null;
+		}
+	};
+
+	const openBlock = (controller: TransformStreamDefaultController<Uint8Array>, block: AnthropicStreamBlock) => {
+		closeBlock(controller);
+		blockIndex++;
+		openBlockType = block.type;
+		emit(controller, "content_block_start", { index: blockIndex, content_block: block });
+	};
+
+	const writeDelta = (
+		controller: TransformStreamDefaultController<Uint8Array>,
+		blockType: "text" | "thinking",
+		delta: AnthropicStreamDelta
+	) => {
+		// Consecutive deltas of the same kind share one content block
+		if (openBlockType !== blockType) {
+			openBlock(controller, blockType === "text" ? { type: "text", text: "" } : { type: "thinking", thinking: "" });
+		}
+		emit(controller, "content_block_delta", { index: blockIndex, delta });
+	};
+
+	return new TransformStream({
+		start(controller) {
+			emit(controller, "message_start", {
+				message: {
+					id: messageID,
+					type: "message",
+					role: "assistant",
+					model: model,
+					content: [],
+					stop_reason: null,
+					stop_sequence: null,
+					usage: { input_tokens: 0, output_tokens: 0 }
+				}
+			});
+		},
+		transform(chunk, controller) {
+			if ((chunk.type === "text" || chunk.type === "thinking_content") && typeof chunk.data === "string") {
+				if (chunk.data) {
+					writeDelta(controller, "text", { type: "text_delta", text: chunk.data });
+				}
+			} else if (chunk.type === "real_thinking" && typeof chunk.data === "string") {
+				if (chunk.data) {
+					writeDelta(controller, "thinking", { type: "thinking_delta", thinking: chunk.data });
+				}
+			} else if (chunk.type === "reasoning" && isReasoningData(chunk.data)) {
+				writeDelta(controller, "thinking", { type: "thinking_delta", thinking: chunk.data.reasoning });
+			} else if (chunk.type === "tool_code" && isGeminiFunctionCall(chunk.data)) {
+				// Gemini returns complete function calls, so each one becomes a whole tool_use block
+				hasToolUse = true;
+				openBlock(controller, {
+					type: "tool_use",
+					id: `toolu_${crypto.randomUUID().replace(/-/g, "")}`,
+					name: chunk.data.name,
+					input: {}
+				});
+				emit(controller, "content_block_delta", {
+					index: blockIndex,
+					delta: { type: "input_json_delta", partial_json: JSON.stringify(chunk.data.args ?? {}) }
+				});
+				closeBlock(controller);
+			} else if (chunk.type === "finish_reason" && typeof chunk.data === "string") {
+				finishReason = chunk.data;
+			} else if (chunk.type === "usage" && isUsageData(chunk.data)) {
+				usageData = chunk.data;
+			}
+		},
+		flush(controller) {
+			closeBlock(controller);
+			emit(controller, "message_delta", {
+				delta: { stop_reason: toAnthropicStopReason(finishReason, hasToolUse), stop_sequence: null },
+				usage: {
+					input_tokens: usageData?.inputTokens ?? 0,
+					output_tokens: usageData?.outputTokens ?? 0
+				}
+			});
+			emit(controller, "message_stop", {});
+		}
+	});
+}
+
+/**
+ * Creates a TransformStream to convert Gemini's output chunks
+ * into OpenAI Responses API server-sent events.
+ */
+export function createResponsesStreamTransformer(
+	builder: ResponsesOutputBuilder
+): TransformStream<StreamChunk, Uint8Array> {
+	const encoder = new TextEncoder();
+
+	const emit = (controller: TransformStreamDefaultController<Uint8Array>, events: ResponsesStreamEvent[]) => {
+		for (const event of events) {
+			controller.enqueue(encoder.encode(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`));
+		}
+	};
+
+	return new TransformStream({
+		start(controller) {
+			emit(controller, builder.start());
+		},
+		transform(chunk, controller) {
+			emit(controller, builder.push(chunk));
+		},
+		flush(controller) {
+			emit(controller, builder.finish());
+		}
+	});
+}
+
+/**
+ * Creates a TransformStream to convert Gemini's output chunks into Ollama NDJSON lines.
+ * "chat" mode emits message objects (/api/chat); "generate" mode emits response strings (/api/generate).
+ */
+export function createOllamaStreamTransformer(
+	model: string,
+	mode: "chat" | "generate"
+): TransformStream<StreamChunk, Uint8Array> {
+	const encoder = new TextEncoder();
+	const startTime = Date.now();
+	let finishReason: string | undefined;
+	let usageData: UsageData | undefined;
+
+	const emitLine = (controller: TransformStreamDefaultController<Uint8Array>, fields: Record<string, unknown>) => {
+		controller.enqueue(
+			encoder.encode(`${JSON.stringify({ model, created_at: new Date().toISOString(), ...fields })}\n`)
+		);
+	};
+
+	const emitDelta = (
+		controller: TransformStreamDefaultController<Uint8Array>,
+		delta: { content?: string; thinking?: string; tool_calls?: OllamaToolCall[] }
+	) => {
+		if (mode === "chat") {
+			emitLine(controller, { message: { role: "assistant", content: "", ...delta }, done: false });
+		} else if (!delta.tool_calls) {
+			emitLine(controller, { response: delta.content ?? "", thinking: delta.thinking, done: false });
+		}
+	};
+
+	return new TransformStream({
+		transform(chunk, controller) {
+			if ((chunk.type === "text" || chunk.type === "thinking_content") && typeof chunk.data === "string") {
+				if (chunk.data) emitDelta(controller, { content: chunk.data });
+			} else if (chunk.type === "real_thinking" && typeof chunk.data === "string") {
+				if (chunk.data) emitDelta(controller, { thinking: chunk.data });
+			} else if (chunk.type === "reasoning" && isReasoningData(chunk.data)) {
+				emitDelta(controller, { thinking: chunk.data.reasoning });
+			} else if (chunk.type === "tool_code" && isGeminiFunctionCall(chunk.data)) {
+				const toolCall: OllamaToolCall = {
+					function: { name: chunk.data.name, arguments: (chunk.data.args ?? {}) as Record<string, unknown> }
+				};
+				emitDelta(controller, { tool_calls: [toolCall] });
+			} else if (chunk.type === "finish_reason" && typeof chunk.data === "string") {
+				finishReason = chunk.data;
+			} else if (chunk.type === "usage" && isUsageData(chunk.data)) {
+				usageData = chunk.data;
+			}
+		},
+		flush(controller) {
+			// Ollama reports durations in nanoseconds
+			const totalDuration = (Date.now() - startTime) * 1_000_000;
+			const finalFields: Record<string, unknown> = {
+				done: true,
+				done_reason: toOllamaDoneReason(finishReason),
+				total_duration: totalDuration,
+				prompt_eval_count: usageData?.inputTokens ?? 0,
+				eval_count: usageData?.outputTokens ?? 0
+			};
+			if (mode === "chat") {
+				emitLine(controller, { message: { role: "assistant", content: "" }, ...finalFields });
+			} else {
+				emitLine(controller, { response: "", ...finalFields, context: [] });
+			}
+		}
+	});
+}
+
+/**
+ * Creates a TransformStream to convert Gemini's output chunks
+ * into legacy OpenAI text_completion server-sent events.
+ * When echoText is given (echo: true) it is sent as the first chunk.
+ */
+export function createCompletionsStreamTransformer(
+	model: string,
+	echoText?: string,
+	systemFingerprint?: string
+): TransformStream<StreamChunk, Uint8Array> {
+	const completionID = `cmpl-${crypto.randomUUID()}`;
+	const creationTime = Math.floor(Date.now() / 1000);
+	const encoder = new TextEncoder();
+	let finishReason: string | undefined;
+	let usageData: UsageData | undefined;
+
+	const emit = (
+		controller: TransformStreamDefaultController<Uint8Array>,
+		text: string,
+		finishReason: string | null,
+		usage?: OpenAIUsage
+	) => {
+		const completionChunk = {
+			id: completionID,
+			object: OPENAI_TEXT_COMPLETION_OBJECT,
+			created: creationTime,
+			model: model,
+			system_fingerprint: systemFingerprint,
+			choices: [{ text, index: 0, logprobs: null, finish_reason: finishReason }],
+			...(usage ? { usage } : {})
+		};
+		controller.enqueue(encoder.encode(`data: ${JSON.stringify(completionChunk)}\n\n`));
+	};
+
+	return new TransformStream({
+		start(controller) {
+			if (echoText) {
+				emit(controller, echoText, null);
+			}
+		},
+		transform(chunk, controller) {
+			if ((chunk.type === "text" || chunk.type === "thinking_content") && typeof chunk.data === "string") {
+				if (chunk.data) emit(controller, chunk.data, null);
+			} else if (chunk.type === "finish_reason" && typeof chunk.data === "string") {
+				finishReason = chunk.data;
+			} else if (chunk.type === "usage" && isUsageData(chunk.data)) {
+				usageData = chunk.data;
+			}
+			// Reasoning and tool calls have no representation in the legacy completions format
+		},
+		flush(controller) {
+			const usage = usageData
+				? {
+						prompt_tokens: usageData.inputTokens,
+						completion_tokens: usageData.outputTokens,
+						total_tokens: usageData.inputTokens + usageData.outputTokens
+					}
+				: undefined;
+			emit(controller, "", toOpenAIFinishReason(finishReason, false), usage);
+			controller.enqueue(encoder.encode("data: [DONE]\n\n"));
+		}
+	});
+}
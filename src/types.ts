@@ -9,17 +9,31 @@ export type SafetyThreshold =
 // --- Environment Variable Typings ---
 export interface Env {
 	GEMINI_PROJECT_ID?: string;
+	GEMINI_KEYS?: string; // Optional: Comma-separated raw Gemini API keys rotated by the KeyRotator instead of the OAuth pool
+	GEMINI_KEYS_FILE?: string; // Optional: URL of a JSON array or newline-separated list of raw Gemini API keys
 	GEMINI_CLI_LOADBALANCE: KVNamespace; // Cloudflare KV for token caching
 	OPENAI_API_KEY?: string; // Optional API key for authentication
 	ENABLE_FAKE_THINKING?: string; // Optional flag to enable fake thinking output (set to "true" to enable)
 	ENABLE_REAL_THINKING?: string; // Optional flag to enable real Gemini thinking output (set to "true" to enable)
 	STREAM_THINKING_AS_CONTENT?: string; // Optional flag to stream thinking as content with <thinking> tags (set to "true" to enable)
 	ENABLE_AUTO_MODEL_SWITCHING?: string; // Optional flag to control automatic fallback from pro to flash. Enabled by default; set to the string "false" or boolean false to disable.
-	MAX_ERROR_COUNT?: string; // Optional: Max error count for a client before it's marked invalid (default 3)
+	FALLBACK_CHAINS?: string; // Optional: JSON FallbackChainConfig replacing the default pro -> flash chain
+	ENABLE_MODEL_SWITCH_NOTICE?: string; // Optional: "true" also writes an [Auto-switched ...] notice into the response text
+	MAX_ERROR_COUNT?: string; // Optional: Consecutive server errors before a client's circuit opens (default 3)
+	CIRCUIT_BREAKER?: string; // Optional: JSON CircuitBreakerConfig overriding the per-client circuit breaker defaults
+	CLIENT_SELECTION_STRATEGY?: SelectionStrategyName; // Optional: How the OAuth pool picks a client (default "round_robin")
+	KEY_SELECTION_STRATEGY?: SelectionStrategyName; // Optional: How GEMINI_KEYS keys are picked (default "random")
+	SELECTION_WEIGHTS?: string; // Optional: JSON map of client env var name or masked key to its weight (default 1)
 	GEMINI_MODERATION_HARASSMENT_THRESHOLD?: SafetyThreshold;
 	GEMINI_MODERATION_HATE_SPEECH_THRESHOLD?: SafetyThreshold;
 	GEMINI_MODERATION_SEXUALLY_EXPLICIT_THRESHOLD?: SafetyThreshold;
 	GEMINI_MODERATION_DANGEROUS_CONTENT_THRESHOLD?: SafetyThreshold;
+	STRUCTURED_OUTPUT_MAX_REPAIRS?: string; // Optional: Re-asks allowed when strict json_schema output fails validation (default 1, "0" disables)
+	MODEL_REGISTRY?: string; // Optional: JSON ModelRegistryConfig merged over the built-in models (KV "model_registry" overrides it)
+	ENABLE_IMAGE_CACHE?: string; // Optional flag to cache fetched remote images in KV by URL hash (set to "true" to enable)
+	ENABLE_SESSION_AFFINITY?: string; // Optional flag to route turns of the same conversation to the same credentials (set to "true" to enable)
+	SESSION_AFFINITY_TTL_SECONDS?: string; // Optional: How long an idle conversation keeps its credentials (default 3600)
+	ROTATION_COORDINATOR?: DurableObjectNamespace; // Optional Durable Object sharing cooldowns, in-flight counts and cursors across isolates
 }
 
 // --- OAuth2 Credentials Interface ---
@@ -38,11 +52,26 @@ export interface ModelInfo {
 	maxTokens: number;
 	contextWindow: number;
 	supportsImages: boolean;
+	supportsAudio: boolean; // Accepts input_audio content parts
+	supportsPdf: boolean; // Accepts PDF file content parts
 	supportsPromptCache: boolean;
 	inputPrice: number;
 	outputPrice: number;
 	description: string;
 	thinking: boolean; // Indicates if the model supports thinking
+	created: number; // Unix timestamp of the model's release, reported by /v1/models
+}
+
+// Fallback chains from the FALLBACK_CHAINS env var: models tried in order when a model is rate limited
+export interface FallbackChainConfig {
+	chains?: Record<string, string[]>; // Model id -> fallback models, e.g. { "gemini-2.5-pro": ["gemini-2.5-flash"] }
+	tenants?: Record<string, Record<string, string[]>>; // Tenant id -> chains overriding the global ones
+}
+
+// Registry overrides loaded from the MODEL_REGISTRY env var or KV, merged over the built-in models
+export interface ModelRegistryConfig {
+	models?: Record<string, Partial<ModelInfo>>; // New models are completed with conservative defaults
+	aliases?: Record<string, string>; // Alias -> model id, e.g. "gpt-4o" -> "gemini-2.5-pro"
 }
 
 // --- Chat Completion Request Interface ---
@@ -57,7 +86,11 @@ export interface Tool {
 	};
 }
 
-export type ToolChoice = "none" | "auto" | { type: "function"; function: { name: string } };
+export type ToolChoice = "none" | "auto" | "required" | { type: "function"; function: { name: string } };
+
+// Deprecated OpenAI function calling fields, still sent by older clients
+export type FunctionDefinition = Tool["function"];
+export type FunctionCallChoice = "none" | "auto" | { name: string };
 
 export interface ChatCompletionRequest {
 	model: string;
@@ -67,6 +100,8 @@ export interface ChatCompletionRequest {
 	reasoning_effort?: EffortLevel; // Optional effort level for thinking
 	tools?: Tool[];
 	tool_choice?: ToolChoice;
+	functions?: FunctionDefinition[]; // Deprecated: converted into tools
+	function_call?: FunctionCallChoice; // Deprecated: converted into tool_choice
 	// Support for common custom parameter locations
 	extra_body?: {
 		reasoning_effort?: EffortLevel;
@@ -82,9 +117,39 @@ export interface ChatCompletionRequest {
 	presence_penalty?: number;
 	frequency_penalty?: number;
 	seed?: number;
-	response_format?: {
-		type: "text" | "json_object";
-	};
+	n?: number; // Number of choices (Gemini candidateCount)
+	response_format?: ResponseFormat;
+	allow_fallback?: boolean; // false disables switching to a fallback model on rate limits
+	user?: string; // End-user id, also used as the session affinity key
+}
+
+export interface JsonSchemaFormat {
+	name: string;
+	description?: string;
+	schema?: Record<string, unknown>;
+	strict?: boolean | null; // Validate the output and re-ask when it doesn't match
+}
+
+export type ResponseFormat = { type: "text" | "json_object" } | { type: "json_schema"; json_schema: JsonSchemaFormat };
+
+// --- Gemini Request Options ---
+// Normalized options accepted by GeminiApiClient.streamContent / getCompletion.
+export interface GeminiRequestOptions {
+	includeReasoning?: boolean;
+	thinkingBudget?: number;
+	tools?: Tool[];
+	tool_choice?: ToolChoice;
+	max_tokens?: number;
+	temperature?: number;
+	top_p?: number;
+	stop?: string | string[];
+	presence_penalty?: number;
+	frequency_penalty?: number;
+	seed?: number;
+	n?: number;
+	response_format?: ResponseFormat;
+	allowFallback?: boolean; // false pins the request to the requested model
+	tenant?: string; // Selects per-tenant fallback chains
 }
 
 export interface ToolCall {
@@ -101,15 +166,26 @@ export interface ChatMessage {
 	content: string | MessageContent[];
 	tool_calls?: ToolCall[];
 	tool_call_id?: string;
+	name?: string; // Function name on legacy "function" role messages
+	function_call?: ToolCall["function"]; // Legacy assistant function call
 }
 
 export interface MessageContent {
-	type: "text" | "image_url";
+	type: "text" | "image_url" | "input_audio" | "file";
 	text?: string;
 	image_url?: {
 		url: string;
 		detail?: "low" | "high" | "auto";
 	};
+	input_audio?: {
+		data: string; // Base64 audio without a data: URL prefix
+		format: string; // e.g. "wav" or "mp3"
+	};
+	file?: {
+		file_data?: string; // Base64 data URL, e.g. data:application/pdf;base64,...
+		file_id?: string; // Uploaded file reference; not supported by this worker
+		filename?: string;
+	};
 }
 
 // --- Chat Completion Response Interfaces ---
@@ -118,6 +194,7 @@ export interface ChatCompletionResponse {
 	object: "chat.completion";
 	created: number;
 	model: string;
+	system_fingerprint?: string; // Identifies the credential route that served the request
 	choices: ChatCompletionChoice[];
 	usage?: ChatCompletionUsage;
 }
@@ -125,13 +202,14 @@ export interface ChatCompletionResponse {
 export interface ChatCompletionChoice {
 	index: number;
 	message: ChatCompletionMessage;
-	finish_reason: "stop" | "length" | "tool_calls" | "content_filter" | null;
+	finish_reason: "stop" | "length" | "tool_calls" | "function_call" | "content_filter" | null;
 }
 
 export interface ChatCompletionMessage {
 	role: "assistant";
 	content: string | null;
 	tool_calls?: ToolCall[];
+	function_call?: ToolCall["function"];
 }
 
 export interface ChatCompletionUsage {
@@ -140,6 +218,283 @@ export interface ChatCompletionUsage {
 	total_tokens: number;
 }
 
+// --- Anthropic Messages API Interfaces ---
+export interface AnthropicTextBlock {
+	type: "text";
+	text: string;
+}
+
+export interface AnthropicImageBlock {
+	type: "image";
+	source: { type: "base64"; media_type: string; data: string } | { type: "url"; url: string };
+}
+
+export interface AnthropicToolUseBlock {
+	type: "tool_use";
+	id: string;
+	name: string;
+	input: Record<string, unknown>;
+}
+
+export interface AnthropicToolResultBlock {
+	type: "tool_result";
+	tool_use_id: string;
+	content?: string | Array<AnthropicTextBlock | AnthropicImageBlock>;
+	is_error?: boolean;
+}
+
+export interface AnthropicThinkingBlock {
+	type: "thinking";
+	thinking: string;
+	signature?: string;
+}
+
+export type AnthropicContentBlock =
+	| AnthropicTextBlock
+	| AnthropicImageBlock
+	| AnthropicToolUseBlock
+	| AnthropicToolResultBlock
+	| AnthropicThinkingBlock;
+
+export interface AnthropicMessage {
+	role: "user" | "assistant";
+	content: string | AnthropicContentBlock[];
+}
+
+export interface AnthropicTool {
+	name: string;
+	description?: string;
+	input_schema: Record<string, unknown>;
+}
+
+export type AnthropicToolChoice =
+	| { type: "auto" }
+	| { type: "any" }
+	| { type: "none" }
+	| { type: "tool"; name: string };
+
+export interface AnthropicMessagesRequest {
+	model: string;
+	messages: AnthropicMessage[];
+	max_tokens: number;
+	system?: string | AnthropicTextBlock[];
+	stream?: boolean;
+	temperature?: number;
+	top_p?: number;
+	stop_sequences?: string[];
+	tools?: AnthropicTool[];
+	tool_choice?: AnthropicToolChoice;
+	thinking?: { type: "enabled"; budget_tokens: number } | { type: "disabled" };
+	metadata?: { user_id?: string };
+	allow_fallback?: boolean;
+}
+
+export type AnthropicStopReason = "end_turn" | "max_tokens" | "stop_sequence" | "tool_use" | "refusal";
+
+export interface AnthropicMessagesResponse {
+	id: string;
+	type: "message";
+	role: "assistant";
+	model: string;
+	content: Array<AnthropicTextBlock | AnthropicToolUseBlock | AnthropicThinkingBlock>;
+	stop_reason: AnthropicStopReason | null;
+	stop_sequence: string | null;
+	usage: {
+		input_tokens: number;
+		output_tokens: number;
+	};
+}
+
+// --- Legacy Completions Interfaces ---
+export interface CompletionRequest {
+	model: string;
+	prompt: string | string[];
+	suffix?: string;
+	echo?: boolean;
+	stream?: boolean;
+	max_tokens?: number;
+	temperature?: number;
+	top_p?: number;
+	stop?: string | string[];
+	presence_penalty?: number;
+	frequency_penalty?: number;
+	seed?: number;
+	allow_fallback?: boolean;
+	user?: string;
+}
+
+export interface CompletionChoice {
+	text: string;
+	index: number;
+	logprobs: null;
+	finish_reason: "stop" | "length" | "content_filter" | null;
+}
+
+export interface CompletionResponse {
+	id: string;
+	object: "text_completion";
+	created: number;
+	model: string;
+	system_fingerprint?: string; // Identifies the credential route that served the request
+	choices: CompletionChoice[];
+	usage?: ChatCompletionUsage;
+}
+
+// --- Token Counting Interfaces ---
+export interface TokenCountResponse {
+	object: "token_count";
+	model: string;
+	prompt_tokens: number;
+	source: "gemini" | "estimate"; // "estimate" when upstream countTokens was unavailable
+}
+
+// --- OpenAI Responses API Interfaces ---
+export type ResponsesInputContent =
+	| { type: "input_text"; text: string }
+	| { type: "output_text"; text: string }
+	| { type: "input_image"; image_url?: string; detail?: "low" | "high" | "auto" };
+
+export interface ResponsesInputMessage {
+	type?: "message";
+	role: "user" | "assistant" | "system" | "developer";
+	content: string | ResponsesInputContent[];
+}
+
+export interface ResponsesFunctionCallItem {
+	type: "function_call";
+	id?: string;
+	call_id: string;
+	name: string;
+	arguments: string;
+	status?: "in_progress" | "completed" | "incomplete";
+}
+
+export interface ResponsesFunctionCallOutputItem {
+	type: "function_call_output";
+	call_id: string;
+	output: string;
+}
+
+export interface ResponsesReasoningItem {
+	type: "reasoning";
+	id: string;
+	summary: Array<{ type: "summary_text"; text: string }>;
+}
+
+export type ResponsesInputItem =
+	| ResponsesInputMessage
+	| ResponsesFunctionCallItem
+	| ResponsesFunctionCallOutputItem
+	| ResponsesReasoningItem;
+
+export interface ResponsesFunctionTool {
+	type: "function";
+	name: string;
+	description?: string;
+	parameters?: Record<string, unknown>;
+	strict?: boolean;
+}
+
+export type ResponsesToolChoice = "none" | "auto" | "required" | { type: "function"; name: string };
+
+export interface ResponsesRequest {
+	model: string;
+	input: string | ResponsesInputItem[];
+	instructions?: string;
+	stream?: boolean;
+	tools?: ResponsesFunctionTool[];
+	tool_choice?: ResponsesToolChoice;
+	reasoning?: { effort?: EffortLevel | "minimal"; summary?: string };
+	max_output_tokens?: number;
+	temperature?: number;
+	top_p?: number;
+	text?: { format?: { type: "text" | "json_object" } | ({ type: "json_schema" } & JsonSchemaFormat) };
+	previous_response_id?: string;
+	metadata?: Record<string, string>;
+	truncation?: "auto" | "disabled";
+	allow_fallback?: boolean;
+	user?: string;
+}
+
+export interface ResponsesOutputMessage {
+	type: "message";
+	id: string;
+	status: "in_progress" | "completed";
+	role: "assistant";
+	content: Array<{ type: "output_text"; text: string; annotations: unknown[] }>;
+}
+
+export type ResponsesOutputItem = ResponsesOutputMessage | ResponsesFunctionCallItem | ResponsesReasoningItem;
+
+export interface ResponsesResponse {
+	id: string;
+	object: "response";
+	created_at: number;
+	status: "in_progress" | "completed" | "incomplete" | "failed";
+	incomplete_details: { reason: "max_output_tokens" | "content_filter" } | null;
+	model: string;
+	instructions: string | null;
+	output: ResponsesOutputItem[];
+	output_text: string;
+	usage: {
+		input_tokens: number;
+		output_tokens: number;
+		total_tokens: number;
+	} | null;
+	metadata: Record<string, string>;
+}
+
+// --- Ollama API Interfaces ---
+export interface OllamaOptions {
+	temperature?: number;
+	top_p?: number;
+	num_predict?: number;
+	stop?: string | string[];
+	seed?: number;
+	presence_penalty?: number;
+	frequency_penalty?: number;
+}
+
+export interface OllamaToolCall {
+	function: {
+		name: string;
+		arguments: Record<string, unknown>;
+	};
+}
+
+export interface OllamaMessage {
+	role: "system" | "user" | "assistant" | "tool";
+	content: string;
+	images?: string[]; // raw base64 without a data: prefix
+	thinking?: string;
+	tool_calls?: OllamaToolCall[];
+	tool_name?: string;
+}
+
+export interface OllamaChatRequest {
+	model: string;
+	messages: OllamaMessage[];
+	tools?: Tool[];
+	stream?: boolean;
+	format?: "json" | Record<string, unknown>;
+	options?: OllamaOptions;
+	think?: boolean;
+	allow_fallback?: boolean;
+}
+
+export interface OllamaGenerateRequest {
+	model: string;
+	prompt?: string;
+	suffix?: string;
+	system?: string;
+	images?: string[];
+	stream?: boolean;
+	format?: "json" | Record<string, unknown>;
+	options?: OllamaOptions;
+	think?: boolean;
+	allow_fallback?: boolean;
+}
+
 // --- Gemini Specific Types ---
 export interface GeminiFunctionCall {
 	name: string;
@@ -157,17 +512,128 @@ export interface ReasoningData {
 	toolCode?: string;
 }
 
+// Reported when a fallback model served the request instead of the requested one
+export interface ModelSwitchData {
+	requestedModel: string;
+	servedModel: string;
+	reason: string; // "rate_limited", "unavailable" or "keys_exhausted"
+}
+
 // --- Stream Chunk Types ---
 export interface StreamChunk {
-	type: "text" | "usage" | "reasoning" | "thinking_content" | "real_thinking" | "tool_code";
-	data: string | UsageData | ReasoningData | GeminiFunctionCall;
+	type:
+		| "text"
+		| "usage"
+		| "reasoning"
+		| "thinking_content"
+		| "real_thinking"
+		| "tool_code"
+		| "finish_reason"
+		| "model_switch";
+	data: string | UsageData | ReasoningData | GeminiFunctionCall | ModelSwitchData; // finish_reason carries Gemini's raw finishReason
+	index?: number; // Candidate index when multiple candidates are requested; defaults to 0
+}
+
+// --- Completion Result Types ---
+export interface CompletionCandidate {
+	index: number;
+	content: string;
+	tool_calls?: ToolCall[];
+	finish_reason?: string; // Gemini finishReason, e.g. "STOP" or "MAX_TOKENS"
+}
+
+// Collected non-streaming result; content and tool_calls mirror the first candidate
+export interface CompletionResult {
+	content: string;
+	usage?: UsageData;
+	tool_calls?: ToolCall[];
+	finish_reason?: string;
+	candidates?: CompletionCandidate[];
+	modelSwitch?: ModelSwitchData; // Set when a fallback model served the request
+}
+
+// --- Circuit Breaker ---
+export type CircuitState = "closed" | "open" | "half_open";
+export type CircuitFailureType = "auth" | "rate_limit" | "server"; // 401/403, 429, and 5xx or network errors
+
+// Settings from the CIRCUIT_BREAKER env var (JSON); omitted fields keep their defaults
+export interface CircuitBreakerConfig {
+	failureThresholds: Record<CircuitFailureType, number>; // Consecutive failures of a type that open the circuit
+	openSeconds: Record<CircuitFailureType, number>; // How long an open circuit waits before probing, per trip cause
+	halfOpenProbes: number; // Concurrent probe requests allowed while half-open
+}
+
+export interface CircuitSnapshot {
+	state: CircuitState;
+	lastFailureType?: CircuitFailureType;
+	openedAt?: number; // Unix timestamp (ms) when the circuit last opened
+	retryAt?: number; // Unix timestamp (ms) when an open circuit moves to half-open
+}
+
+// --- Credential Selection ---
+export type SelectionStrategyName = "round_robin" | "random" | "lru" | "least_in_flight" | "weighted" | "latency_ewma";
+
+export interface SelectionSnapshot {
+	weight: number;
+	inFlight: number; // Requests waiting for an upstream response
+	latencyEwmaMs?: number; // Smoothed latency of successful responses
+}
+
+// --- Rotation Coordinator ---
+// The credential pools whose rotation state the coordinator shares: OAuth clients by id, raw keys by masked key
+export type RotationPool = "clients" | "keys";
+
+export interface CoordinatorSelection {
+	strategy: SelectionStrategyName;
+	weights?: Record<string, number>; // Credential id -> weight for the "weighted" strategy
+}
+
+export interface CoordinatorAcquireRequest extends CoordinatorSelection {
+	pool: RotationPool;
+	ids: string[]; // Candidates in their configured order
+	preferredId?: string; // Used while it isn't cooling down, e.g. for session affinity
+	scope?: string; // Also skips cooldowns set for this scope only, e.g. a key exhausted for one model
+}
+
+// --- Session Affinity ---
+// The credentials that last served a conversation, stored in KV under its hashed session key
+export interface SessionAffinityRecord {
+	clientId?: string; // Pool client id, e.g. "GEMINI_API_KEY_1"
+	maskedKey?: string; // Raw API key in its masked form, e.g. "AIza...x9Yz"
+	updatedAt: number;
 }
 
 // --- Client Status for Admin Dashboard ---
 export interface ClientStatus {
 	index: number;
+	id: string; // Env var the credentials came from, e.g. GEMINI_API_KEY_1
 	last8CharsOfToken: string;
 	errorCount: number;
-	isValid: boolean;
-	invalidatedAt?: number; // Unix timestamp when the client was invalidated
+	isValid: boolean; // False while the circuit is open
+	invalidatedAt?: number; // Unix timestamp when the circuit opened
+	circuit: CircuitSnapshot;
+	selection: SelectionSnapshot;
+}
+
+// Credential availability across the OAuth pool and the optional raw-key rotator
+export interface PoolAvailability {
+	oauthClients: { total: number; valid: number };
+	apiKeys: { total: number; available: number } | null; // null when GEMINI_KEYS/GEMINI_KEYS_FILE is not set
+	servable: boolean; // Whether a request could be dispatched right now
+	servableModels: Record<string, boolean>; // Whether a request for each requested model could be dispatched right now
+}
+
+// --- OpenAI Model Object ---
+export interface OpenAIModel {
+	id: string;
+	object: "model";
+	created: number;
+	owned_by: string;
+	description: string;
+	context_window: number;
+	max_output_tokens: number;
+	modalities: { input: string[]; output: string[] };
+	thinking: boolean;
+	pricing: { input: number; output: number };
+	available: boolean;
 }
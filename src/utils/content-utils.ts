@@ -0,0 +1,61 @@
+import { ChatMessage, MessageContent, ModelInfo } from "../types";
+import { AUDIO_FORMAT_MIME_TYPES, PDF_MIME_TYPE } from "../constants";
+import { DataUrlComponents, parseDataUrl } from "./image-utils";
+
+/**
+ * Utility functions for audio and file content parts and the model capabilities they require
+ */
+
+/**
+ * Maps an OpenAI input_audio format (e.g. "wav", "mp3") to its MIME type, or null if Gemini doesn't accept it.
+ */
+export function getAudioMimeType(format: string): string | null {
+	return AUDIO_FORMAT_MIME_TYPES[format.toLowerCase()] ?? null;
+}
+
+/**
+ * Parses the base64 data URL of a file part, returning null when it is missing or malformed.
+ */
+export function parseFileData(file: MessageContent["file"]): DataUrlComponents | null {
+	const parsed = file?.file_data ? parseDataUrl(file.file_data) : null;
+	return parsed?.data ? parsed : null;
+}
+
+/**
+ * Validates the input_audio and file parts of a conversation against the model's capabilities.
+ * @returns An error message for a 400 response, or null if all parts are usable
+ */
+export function validateContentModalities(messages: ChatMessage[], model: string, info: ModelInfo): string | null {
+	for (const msg of messages) {
+		if (!Array.isArray(msg.content)) continue;
+
+		for (const content of msg.content) {
+			if (content.type === "input_audio") {
+				if (!info.supportsAudio) {
+					return `Model '${model}' does not support audio inputs.`;
+				}
+				if (!content.input_audio?.data) {
+					return "input_audio parts require base64 audio data";
+				}
+				if (!getAudioMimeType(content.input_audio.format ?? "")) {
+					return `Unsupported audio format '${content.input_audio.format}'. Supported formats: ${Object.keys(AUDIO_FORMAT_MIME_TYPES).join(", ")}`;
+				}
+			} else if (content.type === "file") {
+				if (!info.supportsPdf) {
+					return `Model '${model}' does not support PDF inputs.`;
+				}
+				if (content.file?.file_id && !content.file.file_data) {
+					return "file_id references are not supported; send the file inline as base64 file_data";
+				}
+				const fileData = parseFileData(content.file);
+				if (!fileData) {
+					return "file parts require file_data as a base64 data URL";
+				}
+				if (fileData.mimeType !== PDF_MIME_TYPE) {
+					return `Unsupported file type '${fileData.mimeType}'. Only PDF files are supported.`;
+				}
+			}
+		}
+	}
+	return null;
+}
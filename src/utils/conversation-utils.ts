@@ -0,0 +1,67 @@
+/**
+ * Utility functions for normalizing conversations into a shape Gemini accepts
+ */
+
+// Sent as the opening user turn when a history starts with a model turn
+export const CONVERSATION_START_PLACEHOLDER = "(conversation continues)";
+
+interface ConversationPart {
+	text?: string;
+}
+
+interface ConversationTurn<P extends ConversationPart> {
+	role: string;
+	parts: P[];
+}
+
+function isEmptyPart(part: ConversationPart): boolean {
+	// A part is empty when it only carries an empty text; parts with calls, responses or media are kept
+	const keys = Object.keys(part).filter((key) => part[key as keyof ConversationPart] !== undefined);
+	return keys.length === 0 || (keys.length === 1 && keys[0] === "text" && part.text === "");
+}
+
+/**
+ * Cleans up converted contents before they are sent to Gemini, which rejects histories with empty parts,
+ * consecutive turns of the same role or a leading model turn:
+ * - empty text parts are dropped, and turns left without parts are removed
+ * - adjacent turns with the same role are merged into one
+ * - a placeholder user turn is prepended when the history starts with a model turn
+ */
+export function normalizeGeminiContents<P extends ConversationPart, T extends ConversationTurn<P>>(contents: T[]): T[] {
+	const normalized: T[] = [];
+
+	for (const turn of contents) {
+		const parts = turn.parts.filter((part) => !isEmptyPart(part));
+		if (parts.length === 0) continue;
+
+		const previous = normalized[normalized.length - 1];
+		if (previous && previous.role === turn.role) {
+			previous.parts = [...previous.parts, ...parts];
+		} else {
+			normalized.push({ ...turn, parts });
+		}
+	}
+
+	if (normalized.length > 0 && normalized[0].role !== "user") {
+		normalized.unshift({ role: "user", parts: [{ text: CONVERSATION_START_PLACEHOLDER }] } as T);
+	}
+	return normalized;
+}
+
+/**
+ * Parses the JSON arguments of an assistant tool call into the object Gemini expects for functionCall.args.
+ * Clients sometimes replay truncated or non-object arguments; those are wrapped instead of failing the request.
+ */
+export function parseToolArguments(name: string, args: string | undefined): Record<string, unknown> {
+	if (!args || !args.trim()) return {};
+	try {
+		const parsed: unknown = JSON.parse(args);
+		if (typeof parsed === "object" && parsed !== null && !Array.isArray(parsed)) {
+			return parsed as Record<string, unknown>;
+		}
+		return { value: parsed };
+	} catch {
+		console.warn(`[Conversation] Malformed arguments for tool call '${name}', passing them as a raw string`);
+		return { arguments: args };
+	}
+}
@@ -0,0 +1,47 @@
+import { GEMINI_CONTENT_FILTER_FINISH_REASONS } from "../constants";
+import { AnthropicStopReason, ChatCompletionChoice } from "../types";
+
+/**
+ * Utility functions for translating Gemini finishReason values into each API's vocabulary
+ */
+
+export type OpenAIFinishReason = NonNullable<ChatCompletionChoice["finish_reason"]>;
+
+/**
+ * Checks whether Gemini stopped because a safety, recitation or blocklist filter intervened.
+ */
+export function isContentFilterFinishReason(finishReason: string | undefined): boolean {
+	return !!finishReason && (GEMINI_CONTENT_FILTER_FINISH_REASONS as readonly string[]).includes(finishReason);
+}
+
+/**
+ * Maps a Gemini finishReason to an OpenAI finish_reason.
+ * Truncation and filtering take precedence over tool calls, since the calls may be incomplete.
+ * Requests using the deprecated functions field get "function_call" instead of "tool_calls".
+ */
+export function toOpenAIFinishReason(
+	finishReason: string | undefined,
+	hasToolCalls: boolean,
+	legacyFunctionCall: boolean = false
+): OpenAIFinishReason {
+	if (finishReason === "MAX_TOKENS") return "length";
+	if (isContentFilterFinishReason(finishReason)) return "content_filter";
+	if (!hasToolCalls) return "stop";
+	return legacyFunctionCall ? "function_call" : "tool_calls";
+}
+
+/**
+ * Maps a Gemini finishReason to an Anthropic stop_reason.
+ */
+export function toAnthropicStopReason(finishReason: string | undefined, hasToolUse: boolean): AnthropicStopReason {
+	if (finishReason === "MAX_TOKENS") return "max_tokens";
+	if (isContentFilterFinishReason(finishReason)) return "refusal";
+	return hasToolUse ? "tool_use" : "end_turn";
+}
+
+/**
+ * Maps a Gemini finishReason to an Ollama done_reason, which only distinguishes hitting num_predict.
+ */
+export function toOllamaDoneReason(finishReason: string | undefined): "stop" | "length" {
+	return finishReason === "MAX_TOKENS" ? "length" : "stop";
+}
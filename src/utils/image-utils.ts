@@ -84,6 +84,46 @@ export function parseDataUrl(dataUrl: string): DataUrlComponents | null {
 	return { mimeType, data };
 }
 
+/**
+ * Detects an image MIME type from the leading bytes of base64 data (as sent by Ollama clients,
+ * which omit the data: URL prefix). Returns null for unrecognised formats.
+ */
+export function detectImageMimeTypeFromBase64(base64Data: string): string | null {
+	if (base64Data.startsWith("iVBORw0KGgo")) return "image/png";
+	if (base64Data.startsWith("/9j/")) return "image/jpeg";
+	if (base64Data.startsWith("R0lGOD")) return "image/gif";
+	if (base64Data.startsWith("UklGR")) return "image/webp";
+	return null;
+}
+
+/**
+ * Detects an image MIME type from its magic bytes. Returns null for unrecognised formats,
+ * so a URL's extension or Content-Type header is never trusted on its own.
+ */
+export function detectImageMimeType(bytes: Uint8Array): string | null {
+	const startsWith = (signature: number[], offset: number = 0) =>
+		bytes.length >= offset + signature.length && signature.every((byte, i) => bytes[offset + i] === byte);
+
+	if (startsWith([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return "image/png";
+	if (startsWith([0xff, 0xd8, 0xff])) return "image/jpeg";
+	if (startsWith([0x47, 0x49, 0x46, 0x38])) return "image/gif";
+	// RIFF container with a WEBP form type
+	if (startsWith([0x52, 0x49, 0x46, 0x46]) && startsWith([0x57, 0x45, 0x42, 0x50], 8)) return "image/webp";
+	return null;
+}
+
+/**
+ * Encodes binary data as base64, in chunks to stay below the argument limit of String.fromCharCode.
+ */
+export function bytesToBase64(bytes: Uint8Array): string {
+	let binary = "";
+	const chunkSize = 0x8000;
+	for (let i = 0; i < bytes.length; i += chunkSize) {
+		binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+	}
+	return btoa(binary);
+}
+
 /**
  * Validates if a model supports image inputs
  */
@@ -0,0 +1,15 @@
+/**
+ * Utility functions for prompt-style (non-chat) requests
+ */
+
+/**
+ * Builds a system instruction asking the model to produce only the text that fits between
+ * the prompt and the given suffix (fill-in-the-middle), since Gemini has no native suffix parameter.
+ */
+export function buildSuffixInstruction(suffix: string): string {
+	return (
+		"Your response will be inserted between the user's text and the following suffix. " +
+		"Reply with only the text that belongs in between, without repeating either side.\n\n" +
+		`Suffix:\n${suffix}`
+	);
+}
@@ -0,0 +1,334 @@
+/**
+ * Utility functions for converting JSON Schema into Gemini's schema dialect and validating values against it
+ */
+
+export type JsonSchema = Record<string, unknown>;
+
+// Keys Gemini's OpenAPI-style Schema object accepts as-is
+const GEMINI_SCHEMA_KEYS = new Set([
+	"type",
+	"format",
+	"title",
+	"description",
+	"nullable",
+	"enum",
+	"minItems",
+	"maxItems",
+	"minProperties",
+	"maxProperties",
+	"minLength",
+	"maxLength",
+	"pattern",
+	"minimum",
+	"maximum",
+	"default",
+	"example",
+	"propertyOrdering"
+]);
+
+// Keywords dropped silently: they carry no constraint Gemini could use
+const IGNORED_SCHEMA_KEYS = new Set(["$schema", "$id", "$comment", "$defs", "definitions", "examples"]);
+
+// Gemini only understands these format values; others are dropped
+const GEMINI_SCHEMA_FORMATS: Record<string, string[]> = {
+	string: ["enum", "date-time"],
+	integer: ["int32", "int64"],
+	number: ["float", "double"]
+};
+
+interface ConversionContext {
+	root: JsonSchema;
+	refStack: string[];
+	dropped: Set<string>;
+}
+
+function isSchemaObject(value: unknown): value is JsonSchema {
+	return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Converts a JSON Schema (tool parameters or a json_schema response format) into the Schema subset
+ * accepted by Gemini. Local `$ref`s are inlined, `oneOf` becomes `anyOf`, `allOf` is merged, nullable
+ * unions become `nullable` and keywords Gemini rejects are dropped with a warning.
+ * @param schema - The JSON Schema to convert
+ * @param label - Name used in the warning, e.g. the tool name
+ */
+export function toGeminiSchema(schema: unknown, label: string = "schema"): JsonSchema {
+	const context: ConversionContext = {
+		root: isSchemaObject(schema) ? schema : {},
+		refStack: [],
+		dropped: new Set()
+	};
+	const result = convertSchema(schema, context);
+	if (context.dropped.size > 0) {
+		console.warn(
+			`[SchemaConverter] Dropped keywords Gemini doesn't support from ${label}: ${[...context.dropped].join(", ")}`
+		);
+	}
+	return result;
+}
+
+function convertSchema(schema: unknown, context: ConversionContext): JsonSchema {
+	if (!isSchemaObject(schema)) return {};
+
+	if (typeof schema.$ref === "string") {
+		const ref = schema.$ref;
+		const target = resolveRef(ref, context.root);
+		if (!target || context.refStack.includes(ref)) {
+			// Recursive structures can't be inlined; fall back to an unconstrained object
+			context.dropped.add(target ? `$ref (recursive ${ref})` : `$ref (${ref})`);
+			return { type: "object", description: schema.description };
+		}
+		context.refStack.push(ref);
+		// Keywords next to $ref (typically description) override the referenced schema
+		const siblings = { ...schema };
+		delete siblings.$ref;
+		const result = convertSchema({ ...target, ...siblings }, context);
+		context.refStack.pop();
+		return result;
+	}
+
+	if (Array.isArray(schema.allOf)) {
+		const { allOf, ...rest } = schema;
+		return convertSchema(mergeAllOf([rest, ...(allOf as unknown[])], context), context);
+	}
+
+	const result: JsonSchema = {};
+	for (const [key, value] of Object.entries(schema)) {
+		if (key === "type" && Array.isArray(value)) {
+			const types = value.filter((type) => type !== "null");
+			if (types.length !== value.length) result.nullable = true;
+			if (types.length === 1) {
+				result.type = types[0];
+			} else if (types.length > 1) {
+				result.anyOf = types.map((type) => ({ type }));
+			}
+		} else if (key === "properties" && isSchemaObject(value)) {
+			result.properties = Object.fromEntries(
+				Object.entries(value).map(([name, propertySchema]) => [name, convertSchema(propertySchema, context)])
+			);
+		} else if (key === "items") {
+			if (Array.isArray(value)) context.dropped.add("items (tuple)");
+			// Tuple-style items are approximated by their first entry
+			result.items = convertSchema(Array.isArray(value) ? value[0] : value, context);
+		} else if ((key === "anyOf" || key === "oneOf") && Array.isArray(value)) {
+			Object.assign(result, convertUnion(value, context));
+		} else if (key === "required" && Array.isArray(value)) {
+			result.required = value;
+		} else if (key === "const") {
+			if (typeof value === "string") {
+				result.enum = [value];
+			} else {
+				context.dropped.add("const (non-string)");
+			}
+		} else if (key === "enum" && Array.isArray(value)) {
+			// Gemini enums are string-only; other enums are left to server-side validation
+			if (value.every((option) => typeof option === "string")) {
+				result.enum = value;
+			} else {
+				context.dropped.add("enum (non-string)");
+			}
+		} else if (key === "format") {
+			const type = Array.isArray(schema.type) ? schema.type.find((t) => t !== "null") : schema.type;
+			if (GEMINI_SCHEMA_FORMATS[type as string]?.includes(value as string)) {
+				result.format = value;
+			} else {
+				context.dropped.add(`format (${value})`);
+			}
+		} else if (GEMINI_SCHEMA_KEYS.has(key)) {
+			result[key] = value;
+		} else if (!IGNORED_SCHEMA_KEYS.has(key)) {
+			context.dropped.add(key);
+		}
+	}
+
+	// Only keep required names that are actually declared
+	if (Array.isArray(result.required) && isSchemaObject(result.properties)) {
+		const properties = result.properties;
+		result.required = (result.required as string[]).filter((name) => name in properties);
+	}
+	return result;
+}
+
+/**
+ * Converts anyOf/oneOf options. A union of one schema and null (e.g. Pydantic Optional[...])
+ * collapses into that schema with `nullable: true`.
+ */
+function convertUnion(options: unknown[], context: ConversionContext): JsonSchema {
+	const isNull = (option: unknown) => isSchemaObject(option) && option.type === "null";
+	const nonNull = options.filter((option) => !isNull(option));
+	const nullable = nonNull.length !== options.length;
+
+	if (nonNull.length === 1) {
+		return { ...convertSchema(nonNull[0], context), ...(nullable ? { nullable: true } : {}) };
+	}
+	return {
+		anyOf: nonNull.map((option) => convertSchema(option, context)),
+		...(nullable ? { nullable: true } : {})
+	};
+}
+
+/**
+ * Merges allOf subschemas into one: properties and required lists are combined,
+ * other keywords keep their first value.
+ */
+function mergeAllOf(schemas: unknown[], context: ConversionContext): JsonSchema {
+	const merged: JsonSchema = {};
+	for (const part of schemas) {
+		let subschema = part;
+		if (isSchemaObject(subschema) && typeof subschema.$ref === "string") {
+			subschema = resolveRef(subschema.$ref, context.root) ?? {};
+		}
+		if (!isSchemaObject(subschema)) continue;
+
+		for (const [key, value] of Object.entries(subschema)) {
+			if (key === "properties" && isSchemaObject(value)) {
+				merged.properties = { ...(merged.properties as JsonSchema | undefined), ...value };
+			} else if (key === "required" && Array.isArray(value)) {
+				merged.required = [...new Set([...((merged.required as string[]) ?? []), ...value])];
+			} else if (key === "allOf" && Array.isArray(value)) {
+				Object.assign(merged, mergeAllOf([merged, ...value], context));
+			} else if (!(key in merged)) {
+				merged[key] = value;
+			}
+		}
+	}
+	return merged;
+}
+
+function typeOf(value: unknown): string {
+	if (value === null) return "null";
+	if (Array.isArray(value)) return "array";
+	if (typeof value === "number") return Number.isInteger(value) ? "integer" : "number";
+	return typeof value;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+	const actual = typeOf(value);
+	return actual === type || (type === "number" && actual === "integer");
+}
+
+// Patterns come from the client's schema; one JavaScript can't compile is skipped rather than failing the request
+function toRegExp(pattern: string): RegExp | null {
+	try {
+		return new RegExp(pattern);
+	} catch {
+		console.warn(`[SchemaValidator] Skipping pattern that is not a valid regular expression: ${pattern}`);
+		return null;
+	}
+}
+
+function resolveRef(ref: string, root: JsonSchema): JsonSchema | undefined {
+	if (!ref.startsWith("#/")) return undefined;
+	let target: unknown = root;
+	for (const segment of ref.substring(2).split("/")) {
+		if (!isSchemaObject(target)) return undefined;
+		target = target[segment.replace(/~1/g, "/").replace(/~0/g, "~")];
+	}
+	return isSchemaObject(target) ? target : undefined;
+}
+
+/**
+ * Validates a parsed JSON value against a JSON Schema and returns human-readable errors.
+ * Covers the keywords structured outputs rely on (types, enums, objects, arrays, bounds,
+ * combinators and local $refs); unknown keywords are ignored.
+ */
+export function validateAgainstSchema(
+	value: unknown,
+	schema: unknown,
+	path: string = "$",
+	root: JsonSchema = isSchemaObject(schema) ? schema : {}
+): string[] {
+	if (!isSchemaObject(schema)) return [];
+
+	if (typeof schema.$ref === "string") {
+		const target = resolveRef(schema.$ref, root);
+		return target ? validateAgainstSchema(value, target, path, root) : [`${path}: unresolvable $ref ${schema.$ref}`];
+	}
+
+	if (value === null && schema.nullable === true) return [];
+
+	const errors: string[] = [];
+	if (schema.type !== undefined) {
+		const types = Array.isArray(schema.type) ? (schema.type as string[]) : [schema.type as string];
+		if (!types.some((type) => matchesType(value, type))) {
+			return [`${path}: expected ${types.join(" or ")}, got ${typeOf(value)}`];
+		}
+	}
+
+	if (Array.isArray(schema.enum) && !schema.enum.some((option) => JSON.stringify(option) === JSON.stringify(value))) {
+		errors.push(`${path}: must be one of ${JSON.stringify(schema.enum)}`);
+	}
+	if ("const" in schema && JSON.stringify(schema.const) !== JSON.stringify(value)) {
+		errors.push(`${path}: must equal ${JSON.stringify(schema.const)}`);
+	}
+
+	if (typeof value === "string") {
+		if (typeof schema.minLength === "number" && value.length < schema.minLength) {
+			errors.push(`${path}: must be at least ${schema.minLength} characters`);
+		}
+		if (typeof schema.maxLength === "number" && value.length > schema.maxLength) {
+			errors.push(`${path}: must be at most ${schema.maxLength} characters`);
+		}
+		const pattern = typeof schema.pattern === "string" ? toRegExp(schema.pattern) : null;
+		if (pattern && !pattern.test(value)) {
+			errors.push(`${path}: must match pattern ${schema.pattern}`);
+		}
+	}
+
+	if (typeof value === "number") {
+		if (typeof schema.minimum === "number" && value < schema.minimum) {
+			errors.push(`${path}: must be >= ${schema.minimum}`);
+		}
+		if (typeof schema.maximum === "number" && value > schema.maximum) {
+			errors.push(`${path}: must be <= ${schema.maximum}`);
+		}
+	}
+
+	if (Array.isArray(value)) {
+		if (typeof schema.minItems === "number" && value.length < schema.minItems) {
+			errors.push(`${path}: must have at least ${schema.minItems} items`);
+		}
+		if (typeof schema.maxItems === "number" && value.length > schema.maxItems) {
+			errors.push(`${path}: must have at most ${schema.maxItems} items`);
+		}
+		if (isSchemaObject(schema.items)) {
+			value.forEach((item, i) => errors.push(...validateAgainstSchema(item, schema.items, `${path}[${i}]`, root)));
+		}
+	}
+
+	if (isSchemaObject(value)) {
+		const properties = isSchemaObject(schema.properties) ? schema.properties : {};
+		if (Array.isArray(schema.required)) {
+			for (const name of schema.required as string[]) {
+				if (!(name in value)) errors.push(`${path}: missing required property '${name}'`);
+			}
+		}
+		for (const [name, propertyValue] of Object.entries(value)) {
+			const propertyPath = `${path}.${name}`;
+			if (name in properties) {
+				errors.push(...validateAgainstSchema(propertyValue, properties[name], propertyPath, root));
+			} else if (schema.additionalProperties === false) {
+				errors.push(`${propertyPath}: additional property is not allowed`);
+			} else if (isSchemaObject(schema.additionalProperties)) {
+				errors.push(...validateAgainstSchema(propertyValue, schema.additionalProperties, propertyPath, root));
+			}
+		}
+	}
+
+	if (Array.isArray(schema.allOf)) {
+		for (const option of schema.allOf) errors.push(...validateAgainstSchema(value, option, path, root));
+	}
+	for (const combinator of ["anyOf", "oneOf"] as const) {
+		const options = schema[combinator];
+		if (!Array.isArray(options)) continue;
+		const matches = options.filter((option) => validateAgainstSchema(value, option, path, root).length === 0).length;
+		if (matches === 0 || (combinator === "oneOf" && matches > 1)) {
+			errors.push(
+				`${path}: must match ${combinator === "oneOf" ? "exactly one" : "at least one"} of the ${combinator} schemas`
+			);
+		}
+	}
+
+	return errors;
+}
@@ -0,0 +1,65 @@
+import { ModelSwitchData, StreamChunk } from "../types";
+import { FALLBACK_REASON_HEADER, SERVED_MODEL_HEADER } from "../config";
+
+/**
+ * Utility functions for reporting the model that served a request when a fallback occurred
+ */
+
+/**
+ * Builds the response headers naming the served model, plus the fallback reason after a switch.
+ */
+export function getServedModelHeaders(requestedModel: string, modelSwitch?: ModelSwitchData): Record<string, string> {
+	if (!modelSwitch) {
+		return { [SERVED_MODEL_HEADER]: requestedModel };
+	}
+	return { [SERVED_MODEL_HEADER]: modelSwitch.servedModel, [FALLBACK_REASON_HEADER]: modelSwitch.reason };
+}
+
+// Fake thinking is generated before the upstream call, so it may come before the switch; real thinking
+// is model output and always comes after it
+const PRELUDE_CHUNK_TYPES: ReadonlySet<StreamChunk["type"]> = new Set(["model_switch", "reasoning"]);
+
+/**
+ * Reads a stream up to its first model output chunk, so a fallback is known before response headers
+ * are sent.
+ * The returned stream replays everything read; an error is rethrown from it rather than from this call,
+ * so routes keep reporting stream errors the way they already do. It is also returned as `error`, since
+ * nothing has been sent yet and routes can still answer a blocked prompt with an error status.
+ */
+export async function peekModelSwitch(
+	stream: AsyncGenerator<StreamChunk>
+): Promise<{ stream: AsyncGenerator<StreamChunk>; modelSwitch?: ModelSwitchData; error?: unknown }> {
+	const buffered: StreamChunk[] = [];
+	let modelSwitch: ModelSwitchData | undefined;
+	let error: unknown;
+	let done = false;
+
+	try {
+		for (;;) {
+			const next = await stream.next();
+			if (next.done) {
+				done = true;
+				break;
+			}
+			buffered.push(next.value);
+			if (next.value.type === "model_switch") {
+				modelSwitch = next.value.data as ModelSwitchData;
+			} else if (!PRELUDE_CHUNK_TYPES.has(next.value.type)) {
+				break;
+			}
+		}
+	} catch (err) {
+		error = err;
+	}
+
+	async function* replay(): AsyncGenerator<StreamChunk> {
+		yield* buffered;
+		if (error !== undefined) {
+			throw error;
+		}
+		if (!done) {
+			yield* stream;
+		}
+	}
+	return { stream: replay(), modelSwitch, error };
+}
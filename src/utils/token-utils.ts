@@ -0,0 +1,60 @@
+import { ChatMessage, MessageContent } from "../types";
+import { CHARS_PER_TOKEN, AUDIO_BYTES_PER_TOKEN, PDF_BYTES_PER_TOKEN, MESSAGE_OVERHEAD_TOKENS } from "../constants";
+import { estimateImageTokens } from "./image-utils";
+
+/**
+ * Utility functions for estimating prompt sizes without calling the tokenizer
+ */
+
+/**
+ * Estimates the tokens in a text from its length.
+ */
+export function estimateTextTokens(text: string): number {
+	return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+// Decoded size of base64 data
+function base64Bytes(data: string): number {
+	return Math.floor((data.length * 3) / 4);
+}
+
+function estimateContentTokens(content: MessageContent): number {
+	switch (content.type) {
+		case "text":
+			return estimateTextTokens(content.text ?? "");
+		case "image_url":
+			return content.image_url ? estimateImageTokens(content.image_url.url, content.image_url.detail) : 0;
+		case "input_audio":
+			return Math.ceil(base64Bytes(content.input_audio?.data ?? "") / AUDIO_BYTES_PER_TOKEN);
+		case "file": {
+			const base64Data = content.file?.file_data?.split(",")[1] ?? "";
+			return Math.ceil(base64Bytes(base64Data) / PDF_BYTES_PER_TOKEN);
+		}
+		default:
+			return 0;
+	}
+}
+
+/**
+ * Estimates the tokens of one chat message, including its tool calls and a per-message overhead.
+ */
+export function estimateMessageTokens(msg: ChatMessage): number {
+	let tokens = MESSAGE_OVERHEAD_TOKENS;
+	if (typeof msg.content === "string") {
+		tokens += estimateTextTokens(msg.content);
+	} else if (Array.isArray(msg.content)) {
+		tokens += msg.content.reduce((sum, content) => sum + estimateContentTokens(content), 0);
+	}
+	for (const toolCall of msg.tool_calls ?? []) {
+		tokens += estimateTextTokens(toolCall.function.name + (toolCall.function.arguments ?? ""));
+	}
+	return tokens;
+}
+
+/**
+ * Estimates the prompt tokens of a request: the system prompt plus every message.
+ */
+export function estimateConversationTokens(systemPrompt: string, messages: ChatMessage[]): number {
+	const systemTokens = systemPrompt ? estimateTextTokens(systemPrompt) + MESSAGE_OVERHEAD_TOKENS : 0;
+	return messages.reduce((sum, msg) => sum + estimateMessageTokens(msg), systemTokens);
+}
@@ -0,0 +1,88 @@
+/**
+ * Utility functions for checking URLs the worker is asked to fetch on a client's behalf
+ */
+
+// Host names that only resolve inside a private network
+const PRIVATE_HOST_SUFFIXES = [".localhost", ".local", ".internal", ".home.arpa"];
+
+// IPv4 ranges that aren't publicly routable, as [first octets, prefix length]
+const PRIVATE_IPV4_RANGES: [number[], number][] = [
+	[[0], 8], // "this" network
+	[[10], 8], // private
+	[[100, 64], 10], // carrier-grade NAT
+	[[127], 8], // loopback
+	[[169, 254], 16], // link-local, including cloud metadata endpoints
+	[[172, 16], 12], // private
+	[[192, 0, 0], 24], // IETF protocol assignments
+	[[192, 168], 16], // private
+	[[198, 18], 15], // benchmarking
+	[[224], 3] // multicast and reserved
+];
+
+function parseIPv4(host: string): number[] | null {
+	const octets = host.split(".");
+	if (octets.length !== 4 || !octets.every((octet) => /^\d{1,3}$/.test(octet))) return null;
+	const bytes = octets.map(Number);
+	return bytes.every((byte) => byte <= 255) ? bytes : null;
+}
+
+// Expands an IPv6 address into its eight 16-bit groups; URL has already normalized it
+function parseIPv6(host: string): number[] | null {
+	const [head, tail, ...rest] = host.split("::");
+	if (rest.length > 0) return null;
+	const toGroups = (part: string | undefined) => (part ? part.split(":").map((group) => parseInt(group, 16)) : []);
+	const headGroups = toGroups(head);
+	const tailGroups = toGroups(tail);
+	const missing = 8 - headGroups.length - tailGroups.length;
+	if (missing < 0 || (tail === undefined && missing !== 0)) return null;
+	const groups = [...headGroups, ...new Array(missing).fill(0), ...tailGroups];
+	return groups.every((group) => Number.isInteger(group) && group >= 0 && group <= 0xffff) ? groups : null;
+}
+
+function isPrivateIPv4(bytes: number[]): boolean {
+	const address = ((bytes[0] << 24) | (bytes[1] << 16) | (bytes[2] << 8) | bytes[3]) >>> 0;
+	return PRIVATE_IPV4_RANGES.some(([start, prefix]) => {
+		const base = (((start[0] ?? 0) << 24) | ((start[1] ?? 0) << 16) | ((start[2] ?? 0) << 8)) >>> 0;
+		const mask = (0xffffffff << (32 - prefix)) >>> 0;
+		return (address & mask) >>> 0 === base;
+	});
+}
+
+function isPrivateIPv6(groups: number[]): boolean {
+	if (groups.slice(0, 7).every((group) => group === 0) && groups[7] <= 1) return true; // unspecified, loopback
+	if ((groups[0] & 0xfe00) === 0xfc00) return true; // unique local
+	if ((groups[0] & 0xffc0) === 0xfe80) return true; // link-local
+	if ((groups[0] & 0xff00) === 0xff00) return true; // multicast
+	// IPv4-mapped addresses reach the embedded IPv4 address
+	if (groups.slice(0, 5).every((group) => group === 0) && groups[5] === 0xffff) {
+		return isPrivateIPv4([groups[6] >> 8, groups[6] & 0xff, groups[7] >> 8, groups[7] & 0xff]);
+	}
+	return false;
+}
+
+/**
+ * Checks whether a URL may be fetched on a client's behalf: only http(s) URLs whose host isn't a
+ * loopback, private, link-local or otherwise internal name or address.
+ * Host names are checked as written, since Workers can't resolve them first.
+ * @returns Why the URL is blocked, or null when it may be fetched
+ */
+export function getBlockedUrlReason(url: URL): string | null {
+	if (url.protocol !== "http:" && url.protocol !== "https:") {
+		return `unsupported protocol ${url.protocol}`;
+	}
+
+	const host = url.hostname.toLowerCase().replace(/\.$/, "");
+	if (host === "localhost" || PRIVATE_HOST_SUFFIXES.some((suffix) => host.endsWith(suffix))) {
+		return `host ${host} is internal`;
+	}
+
+	const ipv4 = parseIPv4(host);
+	if (ipv4 && isPrivateIPv4(ipv4)) {
+		return `address ${host} is not public`;
+	}
+	const ipv6 = host.startsWith("[") && host.endsWith("]") ? parseIPv6(host.slice(1, -1)) : null;
+	if (ipv6 && isPrivateIPv6(ipv6)) {
+		return `address ${host} is not public`;
+	}
+	return null;
+}
@@ -0,0 +1,104 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+	CONVERSATION_START_PLACEHOLDER,
+	normalizeGeminiContents,
+	parseToolArguments
+} from "../src/utils/conversation-utils";
+
+type Part = { text?: string; functionCall?: { name: string; args: object } };
+type Turn = { role: string; parts: Part[] };
+
+describe("normalizeGeminiContents", () => {
+	it("merges consecutive turns with the same role", () => {
+		const contents: Turn[] = [
+			{ role: "user", parts: [{ text: "first" }] },
+			{ role: "user", parts: [{ text: "second" }] },
+			{ role: "model", parts: [{ text: "reply" }] },
+			{ role: "model", parts: [{ functionCall: { name: "lookup", args: {} } }] },
+			{ role: "user", parts: [{ text: "third" }] }
+		];
+
+		expect(normalizeGeminiContents(contents)).toEqual([
+			{ role: "user", parts: [{ text: "first" }, { text: "second" }] },
+			{ role: "model", parts: [{ text: "reply" }, { functionCall: { name: "lookup", args: {} } }] },
+			{ role: "user", parts: [{ text: "third" }] }
+		]);
+	});
+
+	it("drops empty text parts and the turns they leave empty", () => {
+		const contents: Turn[] = [
+			{ role: "user", parts: [{ text: "" }, { text: "question" }, {}] },
+			{ role: "model", parts: [{ text: "" }] },
+			{ role: "user", parts: [{ text: "follow-up" }] }
+		];
+
+		expect(normalizeGeminiContents(contents)).toEqual([
+			{ role: "user", parts: [{ text: "question" }, { text: "follow-up" }] }
+		]);
+	});
+
+	it("keeps parts that carry more than an empty text", () => {
+		const contents: Turn[] = [
+			{ role: "user", parts: [{ text: "call it" }] },
+			{ role: "model", parts: [{ text: "", functionCall: { name: "lookup", args: {} } }] }
+		];
+
+		expect(normalizeGeminiContents(contents)[1].parts).toEqual([
+			{ text: "", functionCall: { name: "lookup", args: {} } }
+		]);
+	});
+
+	it("prepends a placeholder user turn when the history starts with a model turn", () => {
+		const contents: Turn[] = [
+			{ role: "model", parts: [{ text: "Hello, how can I help?" }] },
+			{ role: "user", parts: [{ text: "question" }] }
+		];
+
+		expect(normalizeGeminiContents(contents)).toEqual([
+			{ role: "user", parts: [{ text: CONVERSATION_START_PLACEHOLDER }] },
+			{ role: "model", parts: [{ text: "Hello, how can I help?" }] },
+			{ role: "user", parts: [{ text: "question" }] }
+		]);
+	});
+
+	it("does not modify the turns it was given", () => {
+		const contents: Turn[] = [
+			{ role: "user", parts: [{ text: "first" }] },
+			{ role: "user", parts: [{ text: "second" }] }
+		];
+
+		normalizeGeminiContents(contents);
+
+		expect(contents[0].parts).toEqual([{ text: "first" }]);
+	});
+
+	it("returns an empty history when every part is empty", () => {
+		expect(normalizeGeminiContents<Part, Turn>([{ role: "model", parts: [{ text: "" }] }])).toEqual([]);
+	});
+});
+
+describe("parseToolArguments", () => {
+	it("parses object arguments", () => {
+		expect(parseToolArguments("lookup", '{"city":"Paris","days":3}')).toEqual({ city: "Paris", days: 3 });
+	});
+
+	it("returns empty arguments for missing or blank input", () => {
+		expect(parseToolArguments("lookup", undefined)).toEqual({});
+		expect(parseToolArguments("lookup", "  ")).toEqual({});
+	});
+
+	it("wraps JSON values that aren't objects", () => {
+		expect(parseToolArguments("lookup", "[1,2]")).toEqual({ value: [1, 2] });
+		expect(parseToolArguments("lookup", '"Paris"')).toEqual({ value: "Paris" });
+		expect(parseToolArguments("lookup", "null")).toEqual({ value: null });
+	});
+
+	it("passes malformed arguments through as a raw string", () => {
+		const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+		expect(parseToolArguments("lookup", '{"city":"Par')).toEqual({ arguments: '{"city":"Par' });
+		expect(warn).toHaveBeenCalledOnce();
+
+		warn.mockRestore();
+	});
+});
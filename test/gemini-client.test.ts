@@ -0,0 +1,51 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { GeminiApiClient } from "../src/gemini-client";
+import { AuthManager } from "../src/auth";
+import { CircuitBreaker } from "../src/helpers/circuit-breaker";
+import { Env } from "../src/types";
+
+const authManager = {
+	initializeAuth: async () => {},
+	getAccessToken: () => "token",
+	clearTokenCache: async () => {}
+} as unknown as AuthManager;
+
+function createBreaker() {
+	return new CircuitBreaker("client-1", {
+		failureThresholds: { auth: 1, rate_limit: 1, server: 1 },
+		openSeconds: { auth: 60, rate_limit: 60, server: 60 },
+		halfOpenProbes: 1
+	});
+}
+
+describe("GeminiApiClient circuit breaker reporting", () => {
+	afterEach(() => {
+		vi.unstubAllGlobals();
+		vi.useRealTimers();
+	});
+
+	it("records a rejected fetch as a failure", async () => {
+		vi.stubGlobal("fetch", vi.fn().mockRejectedValue(new TypeError("fetch failed")));
+		const breaker = createBreaker();
+		const client = new GeminiApiClient({} as Env, authManager, "project-1", breaker);
+
+		await expect(client.generateNativeContent("gemini-2.5-flash", { contents: [] })).rejects.toThrow("fetch failed");
+
+		expect(client.getErrorCount()).toBe(1);
+		expect(breaker.getSnapshot().state).toBe("open");
+	});
+
+	it("reopens a half-open circuit when the probe's fetch rejects", async () => {
+		vi.useFakeTimers();
+		vi.stubGlobal("fetch", vi.fn().mockRejectedValue(new TypeError("fetch failed")));
+		const breaker = createBreaker();
+		const client = new GeminiApiClient({} as Env, authManager, "project-1", breaker);
+		breaker.recordFailure();
+		vi.advanceTimersByTime(61_000);
+
+		expect(breaker.tryAcquire()).toBe(true);
+		await expect(client.generateNativeContent("gemini-2.5-flash", { contents: [] })).rejects.toThrow("fetch failed");
+
+		expect(breaker.getSnapshot().state).toBe("open");
+	});
+});
@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import KeyManager from "../src/key-manager";
+import KeyRotator from "../src/key-rotator";
+
+const rateLimited = () => Object.assign(new Error("Resource exhausted"), { status: 429 });
+
+describe("KeyRotator fallback chain", () => {
+	it("tries the fallback model with keys that were rate limited on the requested model", async () => {
+		const keyManager = new KeyManager({ keys: ["AIzaAAAA1111", "AIzaBBBB2222"] });
+		const attempts: string[] = [];
+
+		const result = await new KeyRotator(keyManager).generateContent(
+			["gemini-2.5-pro", "gemini-2.5-flash"],
+			"",
+			[],
+			async (apiKey, model) => {
+				attempts.push(`${keyManager.maskKey(apiKey)} ${model}`);
+				if (model === "gemini-2.5-pro") throw rateLimited();
+				return { content: `served by ${model}` };
+			}
+		);
+
+		expect(result.content).toBe("served by gemini-2.5-flash");
+		expect(attempts.filter((attempt) => attempt.endsWith("gemini-2.5-pro"))).toHaveLength(2);
+		expect(keyManager.getAvailableKeysCount("gemini-2.5-pro")).toBe(0);
+		expect(keyManager.getAvailableKeysCount("gemini-2.5-flash")).toBe(2);
+	});
+
+	it("streams from the fallback model once every key is rate limited on the requested model", async () => {
+		const keyManager = new KeyManager({ keys: ["AIzaAAAA1111", "AIzaBBBB2222"] });
+		const chunks: unknown[] = [];
+
+		for await (const chunk of new KeyRotator(keyManager).streamContent(
+			["gemini-2.5-pro", "gemini-2.5-flash"],
+			"",
+			[],
+			async function* (_apiKey, model) {
+				if (model === "gemini-2.5-pro") throw rateLimited();
+				yield model;
+			}
+		)) {
+			chunks.push(chunk);
+		}
+
+		expect(chunks).toEqual(["gemini-2.5-flash"]);
+	});
+
+	it("keeps a key exhausted for every model when no model is given", async () => {
+		const keyManager = new KeyManager({ keys: ["AIzaAAAA1111", "AIzaBBBB2222"] });
+		await keyManager.markKeyExhausted("AIzaAAAA1111");
+
+		expect(keyManager.getAvailableKeys("gemini-2.5-flash")).toEqual(["AIzaBBBB2222"]);
+		expect(keyManager.isKeyAvailable("AIzaAAAA1111", "gemini-2.5-pro")).toBe(false);
+	});
+});
@@ -0,0 +1,77 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { RemoteImageHelper } from "../src/helpers/remote-image";
+import { ChatMessage, Env } from "../src/types";
+
+// The 8-byte PNG signature is enough for the type detection
+const PNG_BYTES = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+const imageMessage = (url: string): ChatMessage[] => [
+	{ role: "user", content: [{ type: "image_url", image_url: { url } }] }
+];
+
+describe("RemoteImageHelper", () => {
+	afterEach(() => {
+		vi.unstubAllGlobals();
+	});
+
+	it("refuses image URLs pointing into a private network without fetching them", async () => {
+		const fetchMock = vi.fn();
+		vi.stubGlobal("fetch", fetchMock);
+
+		await expect(
+			new RemoteImageHelper({} as Env).inlineRemoteImages(imageMessage("http://169.254.169.254/latest/meta-data/"))
+		).rejects.toMatchObject({ status: 400 });
+		expect(fetchMock).not.toHaveBeenCalled();
+	});
+
+	it("answers malformed image URLs with a client error", async () => {
+		const fetchMock = vi.fn();
+		vi.stubGlobal("fetch", fetchMock);
+
+		await expect(
+			new RemoteImageHelper({} as Env).inlineRemoteImages(imageMessage("http://exa mple.com/cat.png"))
+		).rejects.toMatchObject({ status: 400, message: expect.stringContaining("invalid URL") });
+		expect(fetchMock).not.toHaveBeenCalled();
+	});
+
+	it("checks every redirect hop", async () => {
+		const fetchMock = vi
+			.fn()
+			.mockResolvedValue(new Response(null, { status: 302, headers: { Location: "http://127.0.0.1/" } }));
+		vi.stubGlobal("fetch", fetchMock);
+
+		await expect(
+			new RemoteImageHelper({} as Env).inlineRemoteImages(imageMessage("https://example.com/cat.png"))
+		).rejects.toThrow("redirected to a blocked URL");
+		expect(fetchMock).toHaveBeenCalledOnce();
+		expect(fetchMock.mock.calls[0][1]).toMatchObject({ redirect: "manual" });
+	});
+
+	it("follows redirects to public URLs", async () => {
+		const fetchMock = vi
+			.fn()
+			.mockResolvedValueOnce(new Response(null, { status: 301, headers: { Location: "/images/cat.png" } }))
+			.mockResolvedValueOnce(new Response(PNG_BYTES));
+		vi.stubGlobal("fetch", fetchMock);
+
+		const [message] = await new RemoteImageHelper({} as Env).inlineRemoteImages(
+			imageMessage("https://example.com/cat.png")
+		);
+
+		expect(String(fetchMock.mock.calls[1][0])).toBe("https://example.com/images/cat.png");
+		expect((message.content as { image_url?: { url: string } }[])[0].image_url?.url).toMatch(
+			/^data:image\/png;base64,/
+		);
+	});
+
+	it("fetches each URL once per helper", async () => {
+		const fetchMock = vi.fn().mockImplementation(async () => new Response(PNG_BYTES));
+		vi.stubGlobal("fetch", fetchMock);
+		const helper = new RemoteImageHelper({} as Env);
+
+		await helper.inlineRemoteImages(imageMessage("https://example.com/cat.png"));
+		await helper.inlineRemoteImages(imageMessage("https://example.com/cat.png"));
+
+		expect(fetchMock).toHaveBeenCalledOnce();
+	});
+});
@@ -0,0 +1,53 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { InMemoryRotationCoordinator } from "../src/helpers/rotation-coordinator";
+import { ROTATION_LEASE_TTL_MS } from "../src/constants";
+import { CoordinatorAcquireRequest } from "../src/types";
+
+const request: CoordinatorAcquireRequest = { pool: "clients", ids: ["a", "b"], strategy: "least_in_flight" };
+
+describe("InMemoryRotationCoordinator leases", () => {
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	it("counts acquires as in flight until they are released", async () => {
+		const coordinator = new InMemoryRotationCoordinator();
+		await coordinator.acquire({ ...request, ids: ["a"] });
+
+		expect(await coordinator.acquire(request)).toBe("b");
+		await coordinator.release("clients", "b");
+		await coordinator.release("clients", "a");
+		await coordinator.acquire({ ...request, ids: ["b"] });
+
+		expect(await coordinator.acquire(request)).toBe("a");
+	});
+
+	it("stops counting an unreleased acquire as in flight once its lease expires", async () => {
+		vi.useFakeTimers();
+		const coordinator = new InMemoryRotationCoordinator();
+		// Two requests on "a" that never report back, e.g. because their isolate was evicted
+		await coordinator.acquire({ ...request, ids: ["a"] });
+		await coordinator.acquire({ ...request, ids: ["a"] });
+
+		vi.advanceTimersByTime(ROTATION_LEASE_TTL_MS);
+		await coordinator.acquire({ ...request, ids: ["b"] });
+
+		expect(await coordinator.acquire(request)).toBe("a");
+	});
+
+	it("ignores a release whose lease already expired", async () => {
+		vi.useFakeTimers();
+		const coordinator = new InMemoryRotationCoordinator();
+		await coordinator.acquire({ ...request, ids: ["a"] });
+
+		vi.advanceTimersByTime(ROTATION_LEASE_TTL_MS);
+		await coordinator.acquire({ ...request, ids: ["b"] });
+		await coordinator.release("clients", "b");
+		await coordinator.release("clients", "a");
+		await coordinator.release("clients", "a");
+
+		// Had the late releases counted, "a" would be below zero and picked here
+		await coordinator.acquire({ ...request, ids: ["a"] });
+		expect(await coordinator.acquire(request)).toBe("b");
+	});
+});
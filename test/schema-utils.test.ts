@@ -0,0 +1,146 @@
+import { afterEach, beforeEach, describe, expect, it, vi, type MockInstance } from "vitest";
+import { toGeminiSchema, validateAgainstSchema, type JsonSchema } from "../src/utils/schema-utils";
+import langchainGetForecast from "./fixtures/schemas/langchain-get-forecast.json";
+import mcpFetch from "./fixtures/schemas/mcp-fetch.json";
+import mcpSearchFiles from "./fixtures/schemas/mcp-search-files.json";
+import pydanticInvoice from "./fixtures/schemas/pydantic-invoice.json";
+
+const properties = (schema: JsonSchema) => schema.properties as Record<string, JsonSchema>;
+
+describe("toGeminiSchema", () => {
+	let warn: MockInstance;
+
+	beforeEach(() => {
+		warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+	});
+
+	afterEach(() => {
+		warn.mockRestore();
+	});
+
+	describe("Pydantic model schema", () => {
+		it("inlines $defs references, keeping the keywords next to the $ref", () => {
+			const schema = toGeminiSchema(pydanticInvoice, "Invoice");
+
+			expect(schema.$defs).toBeUndefined();
+			expect(properties(schema).customer).toEqual({
+				properties: { name: { title: "Name", type: "string" }, email: { title: "Email", type: "string" } },
+				required: ["name", "email"],
+				title: "Customer",
+				type: "object"
+			});
+			expect(properties(properties(schema).items.items as JsonSchema).quantity).toEqual({
+				minimum: 1,
+				title: "Quantity",
+				type: "integer"
+			});
+			expect(properties(schema).status).toEqual({
+				enum: ["draft", "sent", "paid"],
+				title: "Status",
+				type: "string",
+				default: "draft"
+			});
+		});
+
+		it("collapses Optional fields into nullable schemas", () => {
+			expect(properties(toGeminiSchema(pydanticInvoice)).notes).toEqual({
+				type: "string",
+				nullable: true,
+				default: null,
+				title: "Notes"
+			});
+		});
+
+		it("turns a discriminated oneOf into anyOf and string consts into single-value enums", () => {
+			const payment = properties(toGeminiSchema(pydanticInvoice)).payment;
+
+			expect(payment.oneOf).toBeUndefined();
+			expect(payment.discriminator).toBeUndefined();
+			const options = payment.anyOf as JsonSchema[];
+			expect(options.map((option) => option.title)).toEqual(["BankTransfer", "Card"]);
+			expect(properties(options[1]).method).toEqual({ enum: ["card"], title: "Method", type: "string" });
+			expect(properties(options[1]).last4.pattern).toBe("^\\d{4}$");
+		});
+
+		it("keeps supported formats and drops the others with a warning", () => {
+			const schema = toGeminiSchema(pydanticInvoice, "Invoice");
+
+			expect(properties(schema).issued_at.format).toBe("date-time");
+			expect(properties(schema).id).toEqual({ title: "Id", type: "string" });
+			expect(warn).toHaveBeenCalledWith(
+				"[SchemaConverter] Dropped keywords Gemini doesn't support from Invoice: format (uuid), format (email), discriminator"
+			);
+		});
+	});
+
+	describe("MCP tool input schemas", () => {
+		it("converts a zod-generated schema with nullable type arrays and a nullable oneOf", () => {
+			expect(toGeminiSchema(mcpSearchFiles.inputSchema, mcpSearchFiles.name)).toEqual({
+				type: "object",
+				properties: {
+					path: { type: "string" },
+					pattern: { type: "string" },
+					excludePatterns: { type: "array", items: { type: "string" }, default: [] },
+					modifiedAfter: { nullable: true, type: "string", format: "date-time" },
+					sort: { type: "string", enum: ["name", "size", "mtime"], nullable: true }
+				},
+				required: ["path", "pattern"]
+			});
+			expect(warn).toHaveBeenCalledWith(
+				"[SchemaConverter] Dropped keywords Gemini doesn't support from search_files: additionalProperties"
+			);
+		});
+
+		it("drops unsupported formats and exclusive bounds from a Pydantic-generated schema", () => {
+			const schema = toGeminiSchema(mcpFetch.inputSchema, mcpFetch.name);
+
+			expect(properties(schema).url).toEqual({
+				description: "URL to fetch",
+				minLength: 1,
+				title: "Url",
+				type: "string"
+			});
+			expect(properties(schema).max_length).not.toHaveProperty("exclusiveMaximum");
+			expect(warn).toHaveBeenCalledWith(
+				"[SchemaConverter] Dropped keywords Gemini doesn't support from fetch: format (uri), exclusiveMaximum, exclusiveMinimum"
+			);
+		});
+	});
+
+	describe("LangChain tool parameters", () => {
+		it("merges an allOf-wrapped definitions $ref with its sibling keywords", () => {
+			expect(properties(toGeminiSchema(langchainGetForecast.parameters)).unit).toEqual({
+				description: "Temperature unit",
+				default: "celsius",
+				title: "Unit",
+				enum: ["celsius", "fahrenheit"],
+				type: "string"
+			});
+		});
+
+		it("merges the properties and required lists of allOf object schemas", () => {
+			expect(properties(toGeminiSchema(langchainGetForecast.parameters)).period).toEqual({
+				type: "object",
+				properties: { start: { type: "string" }, hourly: { type: "boolean" } },
+				required: ["start", "hourly"]
+			});
+		});
+	});
+});
+
+describe("validateAgainstSchema", () => {
+	it("checks string patterns", () => {
+		expect(validateAgainstSchema("12a4", { type: "string", pattern: "^\\d{4}$" })).toEqual([
+			"$: must match pattern ^\\d{4}$"
+		]);
+	});
+
+	it("skips patterns that aren't valid regular expressions", () => {
+		const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+		expect(validateAgainstSchema("anything", { type: "string", pattern: "(?<name" })).toEqual([]);
+		expect(warn).toHaveBeenCalledOnce();
+
+		warn.mockRestore();
+	});
+});
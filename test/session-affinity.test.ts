@@ -0,0 +1,80 @@
+import { describe, expect, it } from "vitest";
+import { SessionAffinityHelper } from "../src/helpers/session-affinity";
+import { ChatMessage, Env } from "../src/types";
+
+function createEnv() {
+	const store = new Map<string, string>();
+	const kv = {
+		get: async (key: string) => store.get(key) ?? null,
+		put: async (key: string, value: string) => {
+			store.set(key, value);
+		}
+	};
+	return { env: { ENABLE_SESSION_AFFINITY: "true", GEMINI_CLI_LOADBALANCE: kv } as unknown as Env, store };
+}
+
+const turn = (...contents: [ChatMessage["role"], string][]): ChatMessage[] =>
+	contents.map(([role, content]) => ({ role, content }));
+
+async function rememberFor(env: Env, messages: ChatMessage[], clientId: string) {
+	const session = await SessionAffinityHelper.fromRequest(env, undefined, undefined, {
+		systemPrompt: "Be brief.",
+		messages
+	});
+	await session!.load();
+	await session!.remember({ clientId });
+}
+
+async function loadFor(env: Env, messages: ChatMessage[]) {
+	const session = await SessionAffinityHelper.fromRequest(env, undefined, undefined, {
+		systemPrompt: "Be brief.",
+		messages
+	});
+	return session ? await session.load() : null;
+}
+
+describe("SessionAffinityHelper prefix sessions", () => {
+	it("has no prefix session before the first assistant reply", async () => {
+		const { env } = createEnv();
+
+		expect(
+			await SessionAffinityHelper.fromRequest(env, undefined, undefined, {
+				systemPrompt: "Be brief.",
+				messages: turn(["user", "Hi"])
+			})
+		).toBeNull();
+	});
+
+	it("keeps a conversation on one record from turn to turn", async () => {
+		const { env } = createEnv();
+		await rememberFor(env, turn(["user", "Hi"], ["assistant", "Hello!"], ["user", "Weather?"]), "client-1");
+
+		const record = await loadFor(
+			env,
+			turn(["user", "Hi"], ["assistant", "Hello!"], ["user", "Weather?"], ["assistant", "Sunny."], ["user", "Thanks"])
+		);
+
+		expect(record?.clientId).toBe("client-1");
+	});
+
+	it("tells apart conversations that open with the same prompt", async () => {
+		const { env, store } = createEnv();
+		await rememberFor(env, turn(["user", "Hi"], ["assistant", "Hello!"], ["user", "Weather?"]), "client-1");
+		await rememberFor(env, turn(["user", "Hi"], ["assistant", "Hey there."], ["user", "News?"]), "client-2");
+
+		expect(store.size).toBe(2);
+		expect((await loadFor(env, turn(["user", "Hi"], ["assistant", "Hey there."], ["user", "More"])))?.clientId).toBe(
+			"client-2"
+		);
+	});
+
+	it("prefers the session header over the conversation", async () => {
+		const { env } = createEnv();
+		const withHeader = await SessionAffinityHelper.fromRequest(env, "abc", "user-1", {
+			systemPrompt: "",
+			messages: turn(["user", "Hi"])
+		});
+
+		expect(withHeader).not.toBeNull();
+	});
+});
@@ -0,0 +1,46 @@
+import { describe, expect, it, vi } from "vitest";
+import { StructuredOutputHelper } from "../src/helpers/structured-output";
+import { RequestDispatcher } from "../src/helpers/request-dispatcher";
+import { GeminiRequestOptions } from "../src/types";
+
+const options: GeminiRequestOptions = {
+	response_format: {
+		type: "json_schema",
+		json_schema: {
+			name: "weather",
+			strict: true,
+			schema: { type: "object", properties: { city: { type: "string" } }, required: ["city"] }
+		}
+	}
+};
+
+function createDispatcher(...outputs: string[]) {
+	const getCompletion = vi.fn();
+	for (const content of outputs) {
+		getCompletion.mockResolvedValueOnce({ content, usage: { inputTokens: 10, outputTokens: 5 } });
+	}
+	return { dispatcher: { getCompletion } as unknown as RequestDispatcher, getCompletion };
+}
+
+describe("StructuredOutputHelper.getCompletion", () => {
+	it("re-asks with the validation errors and sums the usage of every attempt", async () => {
+		const { dispatcher, getCompletion } = createDispatcher('{"town":"Paris"}', '{"city":"Paris"}');
+
+		const completion = await StructuredOutputHelper.getCompletion(dispatcher, "gemini-2.5-flash", "", [], options, 1);
+
+		expect(completion.content).toBe('{"city":"Paris"}');
+		expect(completion.usage).toEqual({ inputTokens: 20, outputTokens: 10 });
+		expect(getCompletion.mock.calls[1][2].at(-1).content).toContain("$: missing required property 'city'");
+	});
+
+	it("fails with status 502 and the validation errors once the repairs are used up", async () => {
+		const { dispatcher } = createDispatcher('{"town":"Paris"}', "not json");
+
+		await expect(
+			StructuredOutputHelper.getCompletion(dispatcher, "gemini-2.5-flash", "", [], options, 1)
+		).rejects.toMatchObject({
+			status: 502,
+			validationErrors: [expect.stringContaining("output is not valid JSON")]
+		});
+	});
+});
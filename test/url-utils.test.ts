@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+import { getBlockedUrlReason } from "../src/utils/url-utils";
+
+const reasonFor = (url: string) => getBlockedUrlReason(new URL(url));
+
+describe("getBlockedUrlReason", () => {
+	it("allows public http(s) URLs", () => {
+		expect(reasonFor("https://example.com/cat.png")).toBeNull();
+		expect(reasonFor("http://8.8.8.8/cat.png")).toBeNull();
+		expect(reasonFor("https://[2606:4700::1111]/cat.png")).toBeNull();
+		expect(reasonFor("https://172.32.0.1/cat.png")).toBeNull();
+	});
+
+	it("blocks other protocols", () => {
+		expect(reasonFor("file:///etc/passwd")).toBe("unsupported protocol file:");
+		expect(reasonFor("ftp://example.com/cat.png")).toBe("unsupported protocol ftp:");
+	});
+
+	it("blocks internal host names", () => {
+		for (const url of [
+			"http://localhost/",
+			"http://LOCALHOST./",
+			"http://api.localhost/",
+			"http://printer.local/",
+			"http://metadata.google.internal/computeMetadata/v1/"
+		]) {
+			expect(reasonFor(url), url).not.toBeNull();
+		}
+	});
+
+	it("blocks loopback, private, link-local and reserved IPv4 addresses", () => {
+		for (const url of [
+			"http://127.0.0.1/",
+			"http://0.0.0.0/",
+			"http://10.1.2.3/",
+			"http://172.16.0.1/",
+			"http://172.31.255.255/",
+			"http://192.168.1.1/",
+			"http://169.254.169.254/latest/meta-data/",
+			"http://100.64.0.1/",
+			"http://224.0.0.1/"
+		]) {
+			expect(reasonFor(url), url).not.toBeNull();
+		}
+	});
+
+	it("blocks IPv4 addresses written in shorthand, octal or hex forms", () => {
+		for (const url of ["http://127.1/", "http://0x7f.0.0.1/", "http://2130706433/", "http://0177.0.0.1/"]) {
+			expect(reasonFor(url), url).not.toBeNull();
+		}
+	});
+
+	it("blocks loopback, unique local, link-local and IPv4-mapped IPv6 addresses", () => {
+		for (const url of [
+			"http://[::1]/",
+			"http://[::]/",
+			"http://[fd00::1]/",
+			"http://[fe80::1]/",
+			"http://[::ffff:127.0.0.1]/",
+			"http://[::ffff:a9fe:a9fe]/"
+		]) {
+			expect(reasonFor(url), url).not.toBeNull();
+		}
+	});
+});